@@ -0,0 +1,28 @@
+// Programmatic entry point; `index.ts` is the CLI
+export { ZodSchemaGenerator } from './generator.js';
+export { DocumentLoader, LoadError } from './loader/documentLoader.js';
+export type { LoadedDocument } from './loader/documentLoader.js';
+export { planOutput, applyPlan, isOutdated, formatPlan } from './writer.js';
+export type { PlannedFile, FileStatus } from './writer.js';
+export { loadConfig, findConfigFile } from './config.js';
+export { SpecValidator, hasErrors, formatDiagnostics } from './validator/specValidator.js';
+export type {
+  OpenAPIDocument,
+  Schema,
+  GeneratedFile,
+  Diagnostic,
+  DiagnosticSeverity,
+  GeneratorOptions,
+  SchemaTarget,
+  FormatOptions,
+  CoerceMode,
+  GeneratorConfig,
+  NamingOptions,
+  OutputLayout,
+  ZodPlugin,
+  ZodRefinement,
+  SchemaHookContext,
+  FormatHookContext,
+  PropertyHookContext,
+  FileHookContext
+} from './types.js';
@@ -1,11 +1,23 @@
-import { CLIOptions } from './types.js';
+import { CLIOptions, SchemaTarget } from './types.js';
+import { SCHEMA_TARGETS } from './emitters/targets.js';
+import { BINARY_MODES, COERCE_MODES, DATE_MODES, INT64_MODES } from './utils/formats.js';
 
-export function parseArgs(): CLIOptions {
+export const DEFAULT_OPTIONS: CLIOptions = {
+  file: 'document.json',
+  output: 'schema'
+};
+
+function readChoice<T extends string>(flag: string, value: string, choices: T[]): T {
+  if (!choices.includes(value as T)) {
+    throw new Error(`Unknown ${flag} ${value}; expected one of ${choices.join(', ')}`);
+  }
+  return value as T;
+}
+
+// Only options given on the command line are set, so they can be layered over a config file
+export function parseArgs(): Partial<CLIOptions> {
   const args = process.argv.slice(2);
-  const options: CLIOptions = {
-    file: 'document.json',
-    output: 'schema'
-  };
+  const options: Partial<CLIOptions> = {};
   
   for (let i = 0; i < args.length; i++) {
     switch (args[i]) {
@@ -21,19 +33,166 @@ export function parseArgs(): CLIOptions {
           i++;
         }
         break;
+      case '-config':
+        if (i + 1 < args.length) {
+          options.config = args[i + 1];
+          i++;
+        }
+        break;
+      case '-json-media-types':
+        if (i + 1 < args.length) {
+          options.jsonMediaTypes = args[i + 1].split(',').map(type => type.trim()).filter(Boolean);
+          i++;
+        }
+        break;
+      case '-include':
+      case '-exclude':
+        if (i + 1 < args.length) {
+          const key = args[i] === '-include' ? 'include' : 'exclude';
+          const patterns = args[i + 1].split(',').map(pattern => pattern.trim()).filter(Boolean);
+          options[key] = [...(options[key] || []), ...patterns];
+          i++;
+        }
+        break;
+      case '-target':
+        if (i + 1 < args.length) {
+          const target = args[i + 1] as SchemaTarget;
+          if (!SCHEMA_TARGETS.includes(target)) {
+            throw new Error(`Unknown -target ${args[i + 1]}; expected one of ${SCHEMA_TARGETS.join(', ')}`);
+          }
+          options.target = target;
+          i++;
+        }
+        break;
+      case '-int64':
+        if (i + 1 < args.length) {
+          options.formats = { ...options.formats, int64: readChoice('-int64', args[i + 1], INT64_MODES) };
+          i++;
+        }
+        break;
+      case '-dates':
+        if (i + 1 < args.length) {
+          options.formats = { ...options.formats, dates: readChoice('-dates', args[i + 1], DATE_MODES) };
+          i++;
+        }
+        break;
+      case '-binary':
+        if (i + 1 < args.length) {
+          options.formats = { ...options.formats, binary: readChoice('-binary', args[i + 1], BINARY_MODES) };
+          i++;
+        }
+        break;
+      case '-coerce':
+        if (i + 1 < args.length) {
+          options.coerce = readChoice('-coerce', args[i + 1], COERCE_MODES);
+          i++;
+        }
+        break;
+      case '-client':
+        options.client = true;
+        break;
+      case '-server':
+        options.server = true;
+        break;
+      case '-mocks':
+        options.mocks = true;
+        break;
+      case '-msw':
+        options.mocks = true;
+        options.msw = true;
+        break;
+      case '-tests':
+        options.tests = true;
+        break;
+      case '-shared-components':
+        options.sharedComponents = true;
+        break;
+      case '-watch':
+      case '--watch':
+        options.watch = true;
+        break;
+      case '-check':
+      case '--check':
+        options.check = true;
+        break;
+      case '-format':
+      case '--format':
+        if (i + 1 < args.length) {
+          options.format = args[i + 1] === 'json' ? 'json' : 'text';
+          i++;
+        }
+        break;
+      case '-strict':
+      case '--strict':
+        options.strict = true;
+        break;
+      case '-report':
+      case '--report':
+        options.report = true;
+        break;
       case '--help':
       case '-h':
         console.log(`
 Usage: npm run generateZod [options]
 
 Options:
-  -file <path>     Path to OpenAPI JSON document (default: document.json)
+  -file <path>     Path to OpenAPI JSON or YAML document (default: document.json)
   -output <path>   Output directory path (default: schema)
+  -config <path>   Config file (default: openapi-zod.config.{ts,mjs,js,json}
+                   in the current directory, when present)
+  -json-media-types <list>
+                   Comma-separated media type patterns treated as JSON
+                   (default: application/json,*/*+json)
+  -include <patterns>
+                   Comma-separated globs selecting operations and components;
+                   prefix with tag:, path:, method: or operationId: to match
+                   operations only (repeatable)
+  -exclude <patterns>
+                   Like -include, for operations and components to leave out
+  -target <zod3|zod4|zod-mini|valibot>
+                   Validation library the schemas are written for
+                   (default: zod3); -client, -server, -mocks and -tests
+                   need zod3 or zod4
+  -int64 <number|bigint|string>
+                   Type of int64 integers (default: number); string keeps
+                   every digit and also accepts numbers
+  -dates <string|Date>
+                   Keep date and date-time values as strings (default) or
+                   turn them into Date objects
+  -binary <Blob|Uint8Array>
+                   Type of binary values (default: Blob)
+  -coerce <none|parameters|forms>
+                   Coerce numbers and booleans sent as text in parameters
+                   (default), also in form request bodies, or nowhere
+  -client          Also generate a typed fetch client (client.ts)
+  -server          Also generate a route manifest and Express/Fastify/Hono
+                   validation middleware (_server/)
+  -mocks           Also generate seeded mock factories (_mocks/, <operation>/mocks.ts)
+  -msw             Like -mocks, plus MSW request handlers (_mocks/handlers.ts)
+  -tests           Also generate node:test files checking that spec examples
+                   parse and constraint violations fail (*.test.ts)
+  -shared-components
+                   Emit components/responses and components/requestBodies as
+                   modules under _components that operations import
+  --watch          Regenerate when the document or a referenced file changes
+  --check          Compare would-be output with disk without writing;
+                   exits with 1 when anything is out of date
+  --format <text|json>
+                   Diagnostics output format (default: text); with json,
+                   stdout carries only the diagnostics
+  --strict         Fail on warnings as well as errors
+  --report         Print time spent per phase and the largest and slowest
+                   generated modules
   -h, --help       Show this help message
 
 Examples:
   npm run generateZod
   npm run generateZod -file api.json -output generated-schemas
+  npm run generateZod -file api.yaml -client
+  npm run generateZod -file api.yaml -target valibot
+  npm run generateZod -file api.yaml -int64 string -dates Date
+  npm run generateZod -include tag:billing,method:get
+  npm run generateZod -file api.yaml --check
         `);
         process.exit(0);
         break;
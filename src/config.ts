@@ -0,0 +1,43 @@
+import fs from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { GeneratorConfig } from './types.js';
+
+export const CONFIG_FILES = [
+  'openapi-zod.config.ts',
+  'openapi-zod.config.mjs',
+  'openapi-zod.config.js',
+  'openapi-zod.config.json'
+];
+
+export function findConfigFile(cwd: string = process.cwd()): string | undefined {
+  return CONFIG_FILES
+    .map(fileName => path.join(cwd, fileName))
+    .find(filePath => fs.existsSync(filePath));
+}
+
+export async function loadConfig(configPath: string): Promise<GeneratorConfig> {
+  let config: GeneratorConfig;
+
+  if (configPath.endsWith('.json')) {
+    config = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+  } else {
+    try {
+      const module = await import(pathToFileURL(configPath).href);
+      config = module.default ?? module;
+    } catch (error) {
+      if (configPath.endsWith('.ts')) {
+        throw new Error(`Cannot load ${configPath}: run the CLI through a TypeScript loader such as tsx, or use a .js/.mjs/.json config (${(error as Error).message})`);
+      }
+      throw error;
+    }
+  }
+
+  // Paths in the config are relative to the config file
+  const configDir = path.dirname(configPath);
+  return {
+    ...config,
+    ...(config.file ? { file: path.resolve(configDir, config.file) } : {}),
+    ...(config.output ? { output: path.resolve(configDir, config.output) } : {})
+  };
+}
@@ -0,0 +1,32 @@
+import { SchemaTarget } from '../types.js';
+import { formatPropertyKey } from '../utils/helpers.js';
+import { PropertyNode, SchemaNode } from './schemaNode.js';
+
+// Renders schema nodes as source code for one validation library
+export interface SchemaEmitter {
+  readonly target: SchemaTarget;
+  // Import every schema module starts with
+  readonly importStatement: string;
+  emit(node: SchemaNode): string;
+  // Type of the values a schema produces, e.g. `z.infer<typeof User>`
+  inferType(schemaName: string): string;
+  // Annotation of a schema producing the given type, which accepts any input; recursive schemas need one
+  schemaAnnotation(type: string): string;
+}
+
+export function formatDefault(value: unknown): string {
+  // Structured defaults are created per parse so callers cannot mutate a shared instance
+  return value !== null && typeof value === 'object' ? `() => (${JSON.stringify(value)})` : JSON.stringify(value);
+}
+
+// Single-quoted like the rest of the generated code, unless the text needs escaping
+export function formatMessage(message: string): string {
+  return /['\\\n\r\u2028\u2029]/.test(message) ? JSON.stringify(message) : `'${message}'`;
+}
+
+// Object literal of property schemas, one per line unless `inline`
+export function formatProperties(properties: PropertyNode[], emit: (node: SchemaNode) => string, inline = false): string {
+  if (properties.length === 0) return '{}';
+  const entries = properties.map(({ key, node }) => `${formatPropertyKey(key)}: ${emit(node)}`);
+  return inline ? `{ ${entries.join(', ')} }` : `{\n${entries.map(entry => `  ${entry}`).join(',\n')}\n}`;
+}
@@ -0,0 +1,87 @@
+// Target-neutral description of a schema, built by the TypeConverter and rendered by an emitter
+
+export type StringFormat = 'datetime' | 'date' | 'email' | 'uuid' | 'url' | 'ipv4' | 'ipv6' | 'base64';
+
+export interface PropertyNode {
+  key: string;
+  node: SchemaNode;
+}
+
+// Target-specific pieces available to the checks that validate against nested schemas
+export interface CheckHelpers {
+  schema: (node: SchemaNode) => string;
+  // Type annotation of a schema value, e.g. `z.ZodTypeAny`
+  schemaType: string;
+  // Expression that is true when the schema accepts the value
+  accepts: (schema: string, value: string) => string;
+  // Statement re-raising the issues of the schema on the value, under the given key when there is one
+  forward: (schema: string, value: string, key?: string) => string;
+  // Statement raising an issue with the given message expression under the given key
+  report: (key: string, message: string) => string;
+  // Statement raising an issue for a key the object does not allow
+  rejectKey: (key: string) => string;
+}
+
+export type Check =
+  | { kind: 'regex'; pattern: string }
+  // Lengths of strings and arrays alike
+  | { kind: 'minLength' | 'maxLength'; value: number }
+  | { kind: 'gte' | 'gt' | 'lte' | 'lt' | 'multipleOf'; value: number }
+  // `predicate` renders a function expression taking the value
+  | { kind: 'refine'; predicate: (helpers: CheckHelpers) => string; message?: string | undefined }
+  // `body` renders the statements of a check that sees the parsed `value`
+  | { kind: 'custom'; body: (helpers: CheckHelpers) => string };
+
+// `message` replaces every issue message raised by the schema itself (`x-zod-message`)
+export type SchemaNode =
+  // Binary values are `Blob`s (blob) or `Uint8Array`s (bytes)
+  | { kind: 'unknown' | 'never' | 'null' | 'undefined' | 'blob' | 'bytes' }
+  | { kind: 'string'; format?: StringFormat | undefined; message?: string | undefined }
+  | { kind: 'number'; integer: boolean; coerce: boolean; message?: string | undefined }
+  | { kind: 'bigint'; message?: string | undefined }
+  | { kind: 'boolean'; message?: string | undefined }
+  | { kind: 'literal'; value: string | number | boolean }
+  // Structured constant, compared by its JSON representation
+  | { kind: 'json'; value: unknown }
+  | { kind: 'enum'; values: string[]; message?: string | undefined }
+  | { kind: 'array'; items: SchemaNode; message?: string | undefined }
+  // Without `rest` no items may follow the tuple
+  | { kind: 'tuple'; items: SchemaNode[]; rest: SchemaNode | null; message?: string | undefined }
+  | {
+      kind: 'object';
+      properties: PropertyNode[];
+      unknownKeys: 'strip' | 'strict' | 'passthrough';
+      catchall?: SchemaNode | undefined;
+      message?: string | undefined;
+    }
+  | { kind: 'record'; values: SchemaNode; message?: string | undefined }
+  | { kind: 'union'; options: SchemaNode[]; message?: string | undefined }
+  // Options are object schemas extended with their discriminator value
+  | { kind: 'discriminatedUnion'; key: string; options: SchemaNode[] }
+  | { kind: 'intersection'; options: SchemaNode[] }
+  | { kind: 'extend'; inner: SchemaNode; properties: PropertyNode[] }
+  // Exported schema of a component or shared module; lazy inside a cycle
+  | { kind: 'ref'; name: string; lazy: boolean }
+  // Source written for the target by the user, e.g. an override
+  | { kind: 'raw'; code: string }
+  | { kind: 'check'; inner: SchemaNode; check: Check }
+  | { kind: 'optional' | 'nullable'; inner: SchemaNode }
+  | { kind: 'default'; inner: SchemaNode; value: unknown }
+  // `fn` is a function expression applied to the input before (preprocess) or to the output after (transform) parsing;
+  // `type` is the TypeScript type a transform produces, when known
+  | { kind: 'preprocess' | 'transform'; inner: SchemaNode; fn: string; type?: string | undefined }
+  | { kind: 'brand'; inner: SchemaNode; brand: string }
+  // Plugin hooks rewrite the rendered expression
+  | { kind: 'hook'; inner: SchemaNode; apply: (code: string) => string };
+
+export function withCheck(inner: SchemaNode, check: Check): SchemaNode {
+  return { kind: 'check', inner, check };
+}
+
+export function ref(name: string): SchemaNode {
+  return { kind: 'ref', name, lazy: false };
+}
+
+export function raw(code: string): SchemaNode {
+  return { kind: 'raw', code };
+}
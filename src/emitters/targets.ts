@@ -0,0 +1,25 @@
+import { SchemaTarget } from '../types.js';
+import { SchemaEmitter } from './emitter.js';
+import { Zod3Emitter } from './zod3Emitter.js';
+import { Zod4Emitter } from './zod4Emitter.js';
+import { ZodMiniEmitter } from './zodMiniEmitter.js';
+import { ValibotEmitter } from './valibotEmitter.js';
+
+export const DEFAULT_TARGET: SchemaTarget = 'zod3';
+export const SCHEMA_TARGETS: SchemaTarget[] = ['zod3', 'zod4', 'zod-mini', 'valibot'];
+
+// Targets the generated client, server, mock and test runtimes are written against
+export const RUNTIME_TARGETS: SchemaTarget[] = ['zod3', 'zod4'];
+
+export function createEmitter(target: SchemaTarget = DEFAULT_TARGET): SchemaEmitter {
+  switch (target) {
+    case 'zod4':
+      return new Zod4Emitter();
+    case 'zod-mini':
+      return new ZodMiniEmitter();
+    case 'valibot':
+      return new ValibotEmitter();
+    default:
+      return new Zod3Emitter();
+  }
+}
@@ -0,0 +1,84 @@
+import { formatPropertyKey } from '../utils/helpers.js';
+import { PropertyNode, SchemaNode } from './schemaNode.js';
+
+// Property values are optional when their schema is, behind any plugin hooks
+function isOptional(node: SchemaNode): boolean {
+  if (node.kind === 'hook') return isOptional(node.inner);
+  return node.kind === 'optional';
+}
+
+function formatObjectType(properties: PropertyNode[], refType: (name: string) => string, extra: string[], multiline: boolean): string {
+  const entries = [
+    ...properties.map(({ key, node }) => `${formatPropertyKey(key)}${isOptional(node) ? '?' : ''}: ${emitType(node, refType)}`),
+    ...extra
+  ];
+  if (entries.length === 0) return '{}';
+  return multiline ? `{\n${entries.map(entry => `  ${entry};`).join('\n')}\n}` : `{ ${entries.join('; ')} }`;
+}
+
+// Operands of `&` are parenthesized when they are unions
+function group(type: string): string {
+  return type.includes('|') ? `(${type})` : type;
+}
+
+// TypeScript type of the values a schema produces, written out for schemas that refer to themselves
+// and so cannot have their type inferred. `refType` names the type of a referenced schema. Values
+// that depend on user code (overrides, transforms, structured constants) are typed as `unknown`.
+export function emitType(node: SchemaNode, refType: (name: string) => string, multiline = false): string {
+  const emit = (child: SchemaNode) => emitType(child, refType);
+  switch (node.kind) {
+    case 'unknown':
+    case 'json':
+    case 'raw':
+      return 'unknown';
+    case 'transform':
+      return node.type ?? 'unknown';
+    case 'never':
+    case 'null':
+    case 'undefined':
+    case 'string':
+    case 'number':
+    case 'bigint':
+    case 'boolean':
+      return node.kind;
+    case 'blob':
+      return 'Blob';
+    case 'bytes':
+      return 'Uint8Array';
+    case 'literal':
+      return JSON.stringify(node.value);
+    case 'enum':
+      return node.values.map(value => JSON.stringify(value)).join(' | ');
+    case 'array':
+      return `Array<${emit(node.items)}>`;
+    case 'tuple':
+      return `[${[...node.items.map(emit), ...(node.rest ? [`...Array<${emit(node.rest)}>`] : [])].join(', ')}]`;
+    case 'object': {
+      const object = formatObjectType(node.properties, refType, node.unknownKeys === 'passthrough' ? ['[key: string]: unknown'] : [], multiline);
+      return node.catchall ? `${object} & Record<string, ${emit(node.catchall)}>` : object;
+    }
+    case 'record':
+      return `Record<string, ${emit(node.values)}>`;
+    case 'union':
+    case 'discriminatedUnion':
+      return Array.from(new Set(node.options.map(emit))).join(' | ');
+    case 'intersection':
+      return node.options.map(option => group(emit(option))).join(' & ');
+    case 'extend': {
+      const keys = node.properties.map(({ key }) => JSON.stringify(key)).join(' | ');
+      return `Omit<${emit(node.inner)}, ${keys}> & ${formatObjectType(node.properties, refType, [], false)}`;
+    }
+    case 'ref':
+      return refType(node.name);
+    case 'optional':
+      return `${emit(node.inner)} | undefined`;
+    case 'nullable':
+      return `${emit(node.inner)} | null`;
+    case 'check':
+    case 'default':
+    case 'preprocess':
+    case 'brand':
+    case 'hook':
+      return emitType(node.inner, refType, multiline);
+  }
+}
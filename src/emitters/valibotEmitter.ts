@@ -0,0 +1,182 @@
+import { SchemaTarget } from '../types.js';
+import { formatPropertyKey, formatRegex } from '../utils/helpers.js';
+import { SchemaEmitter, formatDefault, formatMessage, formatProperties } from './emitter.js';
+import { Check, CheckHelpers, SchemaNode, StringFormat } from './schemaNode.js';
+
+type NodeOf<K extends SchemaNode['kind']> = Extract<SchemaNode, { kind: K }>;
+
+const STRING_FORMATS: Record<StringFormat, string> = {
+  datetime: 'v.isoTimestamp()',
+  date: 'v.isoDate()',
+  email: 'v.email()',
+  uuid: 'v.uuid()',
+  url: 'v.url()',
+  ipv4: 'v.ipv4()',
+  ipv6: 'v.ipv6()',
+  base64: 'v.base64()'
+};
+
+const NUMBER_CHECKS: Record<'gte' | 'gt' | 'lte' | 'lt' | 'multipleOf', string> = {
+  gte: 'v.minValue',
+  gt: 'v.gtValue',
+  lte: 'v.maxValue',
+  lt: 'v.ltValue',
+  multipleOf: 'v.multipleOf'
+};
+
+// Valibot chains checks and transformations through `v.pipe()` and takes messages as a plain last argument
+export class ValibotEmitter implements SchemaEmitter {
+  readonly target: SchemaTarget = 'valibot';
+  readonly importStatement = "import * as v from 'valibot';";
+
+  inferType(schemaName: string): string {
+    return `v.InferOutput<typeof ${schemaName}>`;
+  }
+
+  schemaAnnotation(type: string): string {
+    return `v.GenericSchema<unknown, ${type}>`;
+  }
+
+  emit(node: SchemaNode): string {
+    switch (node.kind) {
+      case 'unknown':
+      case 'never':
+      case 'null':
+      case 'undefined':
+        return `v.${node.kind}()`;
+      case 'blob':
+        return 'v.instance(Blob)';
+      case 'bytes':
+        return 'v.instance(Uint8Array)';
+      case 'bigint':
+      case 'boolean':
+        return `v.${node.kind}(${this.message(node.message)})`;
+      case 'literal':
+        return `v.literal(${JSON.stringify(node.value)})`;
+      case 'json':
+        return `v.custom((value) => JSON.stringify(value) === ${JSON.stringify(JSON.stringify(node.value))})`;
+      case 'enum':
+        return `v.picklist([${node.values.map(value => JSON.stringify(value)).join(', ')}]${this.message(node.message, true)})`;
+      case 'array':
+        return `v.array(${this.emit(node.items)}${this.message(node.message, true)})`;
+      case 'tuple': {
+        const items = `[${node.items.map(item => this.emit(item)).join(', ')}]`;
+        return node.rest
+          ? `v.tupleWithRest(${items}, ${this.emit(node.rest)}${this.message(node.message, true)})`
+          : `v.strictTuple(${items}${this.message(node.message, true)})`;
+      }
+      case 'object':
+        return this.emitObject(node);
+      case 'record':
+        return `v.record(v.string(), ${this.emit(node.values)}${this.message(node.message, true)})`;
+      case 'union':
+        return `v.union([${node.options.map(option => this.emit(option)).join(', ')}]${this.message(node.message, true)})`;
+      case 'discriminatedUnion':
+        return `v.variant(${JSON.stringify(node.key)}, [${node.options.map(option => this.emit(option)).join(', ')}])`;
+      case 'intersection':
+        return `v.intersect([${node.options.map(option => this.emit(option)).join(', ')}])`;
+      case 'extend':
+        return this.emitExtend(node);
+      case 'ref':
+        return node.lazy ? `v.lazy(() => ${node.name})` : node.name;
+      case 'raw':
+        return node.code;
+      case 'optional':
+      case 'nullable':
+        return `v.${node.kind}(${this.emit(node.inner)})`;
+      case 'default':
+        // An optional schema with a default fills in missing values
+        return `v.optional(${this.emit(node.inner)}, ${formatDefault(node.value)})`;
+      case 'hook':
+        return node.apply(this.emit(node.inner));
+      case 'string':
+      case 'number':
+      case 'check':
+      case 'preprocess':
+      case 'transform':
+      case 'brand': {
+        const items = this.pipeItems(node);
+        return items.length === 1 ? items[0] : `v.pipe(${items.join(', ')})`;
+      }
+    }
+  }
+
+  private message(message: string | undefined, leadingComma = false): string {
+    if (!message) return '';
+    return leadingComma ? `, ${JSON.stringify(message)}` : JSON.stringify(message);
+  }
+
+  // Schema and actions of a single `v.pipe()`, so nested checks do not nest pipes
+  private pipeItems(node: SchemaNode): string[] {
+    switch (node.kind) {
+      case 'string':
+        return [`v.string(${this.message(node.message)})`, ...(node.format ? [STRING_FORMATS[node.format]] : [])];
+      case 'number': {
+        const base = node.coerce
+          ? ['v.unknown()', 'v.transform(Number)', `v.number(${this.message(node.message)})`]
+          : [`v.number(${this.message(node.message)})`];
+        return node.integer ? [...base, 'v.integer()'] : base;
+      }
+      case 'check':
+        return [...this.pipeItems(node.inner), this.formatCheck(node.check)];
+      case 'preprocess':
+        return ['v.unknown()', `v.transform(${node.fn})`, ...this.pipeItems(node.inner)];
+      case 'transform':
+        return [...this.pipeItems(node.inner), `v.transform(${node.fn})`];
+      case 'brand':
+        return [...this.pipeItems(node.inner), `v.brand(${JSON.stringify(node.brand)})`];
+      default:
+        return [this.emit(node)];
+    }
+  }
+
+  private formatCheck(check: Check): string {
+    switch (check.kind) {
+      case 'regex':
+        return `v.regex(${formatRegex(check.pattern)})`;
+      case 'minLength':
+      case 'maxLength':
+        return `v.${check.kind}(${check.value})`;
+      case 'gte':
+      case 'gt':
+      case 'lte':
+      case 'lt':
+      case 'multipleOf':
+        return `${NUMBER_CHECKS[check.kind]}(${check.value})`;
+      case 'refine':
+        return `v.check(${check.predicate(this.helpers)}${check.message ? `, ${formatMessage(check.message)}` : ''})`;
+      case 'custom':
+        return `v.rawCheck(({ dataset, addIssue }) => { if (!dataset.typed) return; const value = dataset.value; ${check.body(this.helpers)} })`;
+    }
+  }
+
+  private emitObject(node: NodeOf<'object'>): string {
+    const entries = formatProperties(node.properties, property => this.emit(property));
+    if (node.catchall) return `v.objectWithRest(${entries}, ${this.emit(node.catchall)}${this.message(node.message, true)})`;
+    const constructors = { strip: 'v.object', strict: 'v.strictObject', passthrough: 'v.looseObject' };
+    return `${constructors[node.unknownKeys]}(${entries}${this.message(node.message, true)})`;
+  }
+
+  private emitExtend(node: NodeOf<'extend'>): string {
+    // Inline objects take the extra properties directly, referenced ones spread their entries
+    if (node.inner.kind === 'object') {
+      const keys = node.properties.map(({ key }) => key);
+      return this.emitObject({ ...node.inner, properties: [...node.inner.properties.filter(({ key }) => !keys.includes(key)), ...node.properties] });
+    }
+    const entries = node.properties.map(({ key, node: property }) => `${formatPropertyKey(key)}: ${this.emit(property)}`);
+    return `v.object({ ...${this.emit(node.inner)}.entries, ${entries.join(', ')} })`;
+  }
+
+  private get helpers(): CheckHelpers {
+    const pathItem = (key: string, value: string) => `{ type: 'unknown', origin: 'value', input: value, key: ${key}, value: ${value} }`;
+    return {
+      schema: node => this.emit(node),
+      schemaType: 'v.GenericSchema',
+      accepts: (schema, value) => `v.is(${schema}, ${value})`,
+      forward: (schema, value, key) =>
+        `v.safeParse(${schema}, ${value}).issues?.forEach((issue) => addIssue({ message: issue.message, path: ${key ? `[${pathItem(key, value)}, ...(issue.path ?? [])]` : 'issue.path'} }))`,
+      report: (key, message) => `addIssue({ message: ${message}, path: [${pathItem(key, 'undefined')}] })`,
+      rejectKey: key => `addIssue({ message: 'Unknown key', path: [${pathItem(key, 'undefined')}] })`
+    };
+  }
+}
@@ -0,0 +1,178 @@
+import { SchemaTarget } from '../types.js';
+import { formatRegex } from '../utils/helpers.js';
+import { SchemaEmitter, formatDefault, formatMessage, formatProperties } from './emitter.js';
+import { Check, CheckHelpers, SchemaNode, StringFormat } from './schemaNode.js';
+
+type NodeOf<K extends SchemaNode['kind']> = Extract<SchemaNode, { kind: K }>;
+
+const STRING_FORMATS: Record<StringFormat, string> = {
+  datetime: '.datetime()',
+  date: '.date()',
+  email: '.email()',
+  uuid: '.uuid()',
+  url: '.url()',
+  ipv4: ".ip({ version: 'v4' })",
+  ipv6: ".ip({ version: 'v6' })",
+  base64: '.base64()'
+};
+
+export class Zod3Emitter implements SchemaEmitter {
+  readonly target: SchemaTarget = 'zod3';
+  readonly importStatement: string = "import { z } from 'zod';";
+
+  inferType(schemaName: string): string {
+    return `z.infer<typeof ${schemaName}>`;
+  }
+
+  schemaAnnotation(type: string): string {
+    return `z.ZodType<${type}, z.ZodTypeDef, unknown>`;
+  }
+
+  emit(node: SchemaNode): string {
+    switch (node.kind) {
+      case 'unknown':
+      case 'never':
+      case 'null':
+      case 'undefined':
+        return `z.${node.kind}()`;
+      case 'blob':
+        return 'z.instanceof(Blob)';
+      case 'bytes':
+        return 'z.instanceof(Uint8Array)';
+      case 'string':
+        return this.emitString(node);
+      case 'number':
+        return this.emitNumber(node);
+      case 'bigint':
+      case 'boolean':
+        return `z.${node.kind}(${this.params(node.message)})`;
+      case 'literal':
+        return `z.literal(${JSON.stringify(node.value)})`;
+      case 'json':
+        return `z.custom((value) => JSON.stringify(value) === ${JSON.stringify(JSON.stringify(node.value))})`;
+      case 'enum':
+        return `z.enum([${node.values.map(value => JSON.stringify(value)).join(', ')}]${this.params(node.message, true)})`;
+      case 'array':
+        return `z.array(${this.emit(node.items)}${this.params(node.message, true)})`;
+      case 'tuple':
+        return this.emitTuple(node);
+      case 'object':
+        return this.emitObject(node);
+      case 'record':
+        return this.emitRecord(node);
+      case 'union':
+        return `z.union([${node.options.map(option => this.emit(option)).join(', ')}]${this.params(node.message, true)})`;
+      case 'discriminatedUnion':
+        return `z.discriminatedUnion(${JSON.stringify(node.key)}, [${node.options.map(option => this.emit(option)).join(', ')}])`;
+      case 'intersection':
+        // z.intersection() takes exactly two schemas, so longer lists are nested
+        return node.options.map(option => this.emit(option)).reduce((left, right) => `z.intersection(${left}, ${right})`);
+      case 'extend':
+        return this.emitExtend(node);
+      case 'ref':
+        return node.lazy ? `z.lazy(() => ${node.name})` : node.name;
+      case 'raw':
+        return node.code;
+      case 'check':
+        return this.emitCheck(node);
+      case 'optional':
+      case 'nullable':
+      case 'default':
+      case 'preprocess':
+      case 'transform':
+      case 'brand':
+        return this.emitModifier(node);
+      case 'hook':
+        return node.apply(this.emit(node.inner));
+    }
+  }
+
+  // `x-zod-message` replaces every issue message raised by the schema itself
+  protected params(message: string | undefined, leadingComma = false): string {
+    if (!message) return '';
+    const params = `{ errorMap: () => ({ message: ${JSON.stringify(message)} }) }`;
+    return leadingComma ? `, ${params}` : params;
+  }
+
+  protected emitString(node: NodeOf<'string'>): string {
+    return `z.string(${this.params(node.message)})${node.format ? STRING_FORMATS[node.format] : ''}`;
+  }
+
+  protected emitNumber(node: NodeOf<'number'>): string {
+    const params = this.params(node.message);
+    return `${node.coerce ? 'z.coerce.number' : 'z.number'}(${params})${node.integer ? '.int()' : ''}`;
+  }
+
+  protected emitTuple(node: NodeOf<'tuple'>): string {
+    const items = node.items.map(item => this.emit(item)).join(', ');
+    return `z.tuple([${items}]${this.params(node.message, true)})${node.rest ? `.rest(${this.emit(node.rest)})` : ''}`;
+  }
+
+  protected emitObject(node: NodeOf<'object'>): string {
+    const object = `z.object(${formatProperties(node.properties, property => this.emit(property))}${this.params(node.message, true)})`;
+    if (node.catchall) return `${object}.catchall(${this.emit(node.catchall)})`;
+    if (node.unknownKeys === 'strict') return `${object}.strict()`;
+    return node.unknownKeys === 'passthrough' ? `${object}.passthrough()` : object;
+  }
+
+  protected emitRecord(node: NodeOf<'record'>): string {
+    return `z.record(${this.emit(node.values)}${this.params(node.message, true)})`;
+  }
+
+  protected emitExtend(node: NodeOf<'extend'>): string {
+    return `${this.emit(node.inner)}.extend(${formatProperties(node.properties, property => this.emit(property), true)})`;
+  }
+
+  protected emitCheck(node: NodeOf<'check'>): string {
+    return `${this.emit(node.inner)}${this.formatCheck(node.check)}`;
+  }
+
+  private formatCheck(check: Check): string {
+    switch (check.kind) {
+      case 'regex':
+        return `.regex(${formatRegex(check.pattern)})`;
+      case 'minLength':
+      case 'gte':
+        return `.min(${check.value})`;
+      case 'maxLength':
+      case 'lte':
+        return `.max(${check.value})`;
+      case 'gt':
+      case 'lt':
+      case 'multipleOf':
+        return `.${check.kind}(${check.value})`;
+      case 'refine':
+        return `.refine(${check.predicate(this.helpers)}${check.message ? `, { message: ${formatMessage(check.message)} }` : ''})`;
+      case 'custom':
+        return `.superRefine((value, ctx) => { ${check.body(this.helpers)} })`;
+    }
+  }
+
+  protected emitModifier(node: NodeOf<'optional' | 'nullable' | 'default' | 'preprocess' | 'transform' | 'brand'>): string {
+    switch (node.kind) {
+      case 'optional':
+      case 'nullable':
+        return `${this.emit(node.inner)}.${node.kind}()`;
+      case 'default':
+        return `${this.emit(node.inner)}.default(${formatDefault(node.value)})`;
+      case 'preprocess':
+        return `z.preprocess(${node.fn}, ${this.emit(node.inner)})`;
+      case 'transform':
+        return `${this.emit(node.inner)}.transform(${node.fn})`;
+      case 'brand':
+        return `${this.emit(node.inner)}.brand<${JSON.stringify(node.brand)}>()`;
+    }
+  }
+
+  protected get helpers(): CheckHelpers {
+    return {
+      schema: node => this.emit(node),
+      schemaType: 'z.ZodTypeAny',
+      accepts: (schema, value) => `${schema}.safeParse(${value}).success`,
+      forward: (schema, value, key) =>
+        `${schema}.safeParse(${value}).error?.issues.forEach((issue) => ctx.addIssue({ ...issue, path: [${key ? `${key}, ` : ''}...issue.path] }))`,
+      report: (key, message) => `ctx.addIssue({ code: z.ZodIssueCode.custom, path: [${key}], message: ${message} })`,
+      rejectKey: key => `ctx.addIssue({ code: z.ZodIssueCode.unrecognized_keys, keys: [${key}] })`
+    };
+  }
+}
@@ -0,0 +1,76 @@
+import { SchemaTarget } from '../types.js';
+import { formatMessage, formatProperties } from './emitter.js';
+import { Zod3Emitter } from './zod3Emitter.js';
+import { CheckHelpers, SchemaNode, StringFormat } from './schemaNode.js';
+
+type NodeOf<K extends SchemaNode['kind']> = Extract<SchemaNode, { kind: K }>;
+
+// Zod 4 validates string formats with their own top-level schemas
+export const ZOD4_STRING_FORMATS: Record<StringFormat, string> = {
+  datetime: 'z.iso.datetime',
+  date: 'z.iso.date',
+  email: 'z.email',
+  uuid: 'z.uuid',
+  url: 'z.url',
+  ipv4: 'z.ipv4',
+  ipv6: 'z.ipv6',
+  base64: 'z.base64'
+};
+
+export class Zod4Emitter extends Zod3Emitter {
+  override readonly target: SchemaTarget = 'zod4';
+
+  // The input type defaults to `unknown`
+  override schemaAnnotation(type: string): string {
+    return `z.ZodType<${type}>`;
+  }
+
+  protected override params(message: string | undefined, leadingComma = false): string {
+    if (!message) return '';
+    const params = `{ error: ${JSON.stringify(message)} }`;
+    return leadingComma ? `, ${params}` : params;
+  }
+
+  protected override emitString(node: NodeOf<'string'>): string {
+    return `${node.format ? ZOD4_STRING_FORMATS[node.format] : 'z.string'}(${this.params(node.message)})`;
+  }
+
+  protected override emitNumber(node: NodeOf<'number'>): string {
+    const params = this.params(node.message);
+    if (node.coerce) return `z.coerce.number(${params})${node.integer ? '.int()' : ''}`;
+    return node.integer ? `z.int(${params})` : `z.number(${params})`;
+  }
+
+  protected override emitTuple(node: NodeOf<'tuple'>): string {
+    const items = node.items.map(item => this.emit(item)).join(', ');
+    return `z.tuple([${items}]${node.rest ? `, ${this.emit(node.rest)}` : ''}${this.params(node.message, true)})`;
+  }
+
+  protected override emitObject(node: NodeOf<'object'>): string {
+    const constructors = { strip: 'z.object', strict: 'z.strictObject', passthrough: 'z.looseObject' };
+    const object = `${node.catchall ? 'z.object' : constructors[node.unknownKeys]}(${formatProperties(node.properties, property => this.emit(property))}${this.params(node.message, true)})`;
+    return node.catchall ? `${object}.catchall(${this.emit(node.catchall)})` : object;
+  }
+
+  protected override emitRecord(node: NodeOf<'record'>): string {
+    // Zod 4 records always name their key schema
+    return `z.record(z.string(), ${this.emit(node.values)}${this.params(node.message, true)})`;
+  }
+
+  protected override emitCheck(node: NodeOf<'check'>): string {
+    const { check } = node;
+    if (check.kind === 'refine') {
+      return `${this.emit(node.inner)}.refine(${check.predicate(this.helpers)}${check.message ? `, { error: ${formatMessage(check.message)} }` : ''})`;
+    }
+    return super.emitCheck(node);
+  }
+
+  protected override get helpers(): CheckHelpers {
+    return {
+      ...super.helpers,
+      schemaType: 'z.ZodType',
+      report: (key, message) => `ctx.addIssue({ code: 'custom', path: [${key}], message: ${message} })`,
+      rejectKey: key => `ctx.addIssue({ code: 'unrecognized_keys', keys: [${key}], input: value })`
+    };
+  }
+}
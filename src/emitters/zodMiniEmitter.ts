@@ -0,0 +1,82 @@
+import { SchemaTarget } from '../types.js';
+import { formatRegex } from '../utils/helpers.js';
+import { formatDefault, formatMessage, formatProperties } from './emitter.js';
+import { Zod4Emitter } from './zod4Emitter.js';
+import { Check, CheckHelpers, SchemaNode } from './schemaNode.js';
+
+type NodeOf<K extends SchemaNode['kind']> = Extract<SchemaNode, { kind: K }>;
+
+// zod/mini has no methods besides `.check()` and `.brand()`; everything else is a function
+export class ZodMiniEmitter extends Zod4Emitter {
+  override readonly target: SchemaTarget = 'zod-mini';
+  override readonly importStatement: string = "import { z } from 'zod/mini';";
+
+  override schemaAnnotation(type: string): string {
+    return `z.ZodMiniType<${type}>`;
+  }
+
+  protected override emitNumber(node: NodeOf<'number'>): string {
+    const params = this.params(node.message);
+    if (node.coerce) return node.integer ? `z.pipe(z.coerce.number(${params}), z.int())` : `z.coerce.number(${params})`;
+    return super.emitNumber(node);
+  }
+
+  protected override emitObject(node: NodeOf<'object'>): string {
+    if (!node.catchall) return super.emitObject(node);
+    return `z.catchall(z.object(${formatProperties(node.properties, property => this.emit(property))}${this.params(node.message, true)}), ${this.emit(node.catchall)})`;
+  }
+
+  protected override emitExtend(node: NodeOf<'extend'>): string {
+    return `z.extend(${this.emit(node.inner)}, ${formatProperties(node.properties, property => this.emit(property), true)})`;
+  }
+
+  protected override emitCheck(node: NodeOf<'check'>): string {
+    // Consecutive checks share one `.check()` call
+    const checks: Check[] = [];
+    let inner: SchemaNode = node;
+    while (inner.kind === 'check') {
+      checks.unshift(inner.check);
+      inner = inner.inner;
+    }
+    return `${this.emit(inner)}.check(${checks.map(check => this.formatMiniCheck(check)).join(', ')})`;
+  }
+
+  private formatMiniCheck(check: Check): string {
+    switch (check.kind) {
+      case 'regex':
+        return `z.regex(${formatRegex(check.pattern)})`;
+      case 'minLength':
+      case 'maxLength':
+      case 'gte':
+      case 'gt':
+      case 'lte':
+      case 'lt':
+      case 'multipleOf':
+        return `z.${check.kind}(${check.value})`;
+      case 'refine':
+        return `z.refine(${check.predicate(this.helpers)}${check.message ? `, { error: ${formatMessage(check.message)} }` : ''})`;
+      case 'custom':
+        return `z.superRefine((value, ctx) => { ${check.body(this.helpers)} })`;
+    }
+  }
+
+  protected override emitModifier(node: NodeOf<'optional' | 'nullable' | 'default' | 'preprocess' | 'transform' | 'brand'>): string {
+    switch (node.kind) {
+      case 'optional':
+      case 'nullable':
+        return `z.${node.kind}(${this.emit(node.inner)})`;
+      case 'default':
+        return `z._default(${this.emit(node.inner)}, ${formatDefault(node.value)})`;
+      case 'preprocess':
+        return `z.pipe(z.transform(${node.fn}), ${this.emit(node.inner)})`;
+      case 'transform':
+        return `z.pipe(${this.emit(node.inner)}, z.transform(${node.fn}))`;
+      case 'brand':
+        return super.emitModifier(node);
+    }
+  }
+
+  protected override get helpers(): CheckHelpers {
+    return { ...super.helpers, schemaType: 'z.ZodMiniType' };
+  }
+}
@@ -1,21 +1,115 @@
-import { OpenAPIDocument, GeneratedFile } from './types.js';
+import { OpenAPIDocument, Diagnostic, GeneratedFile, GeneratorOptions, ZodPlugin } from './types.js';
 import { ComponentGenerator } from './generators/componentGenerator.js';
 import { OperationGenerator } from './generators/operationGenerator.js';
+import { ClientGenerator } from './generators/clientGenerator.js';
+import { ServerGenerator } from './generators/serverGenerator.js';
+import { MockGenerator } from './generators/mockGenerator.js';
+import { TestGenerator } from './generators/testGenerator.js';
+import { filterDocument } from './utils/filter.js';
+import { assignOperationIds } from './utils/operations.js';
+import { Profiler } from './utils/profiler.js';
+import { DiagnosticCollector } from './utils/diagnostics.js';
+import { DEFAULT_TARGET, RUNTIME_TARGETS, SCHEMA_TARGETS } from './emitters/targets.js';
+import { COERCE_MODES, validateFormatOptions } from './utils/formats.js';
 
 export class ZodSchemaGenerator {
   private openApiDoc: OpenAPIDocument;
+  private options: GeneratorOptions;
+  private profiler: Profiler;
+  private collector: DiagnosticCollector;
 
-  constructor(openApiDoc: OpenAPIDocument) {
-    this.openApiDoc = openApiDoc;
+  // Pass a profiler to see where generation spends its time, e.g. for `--report`
+  constructor(openApiDoc: OpenAPIDocument, options: GeneratorOptions = {}, profiler = new Profiler()) {
+    // Operations without an id, or sharing one, get a stable id before anything is generated
+    this.openApiDoc = filterDocument(assignOperationIds(openApiDoc), options);
+    this.options = options;
+    this.profiler = profiler;
+    this.collector = new DiagnosticCollector(this.openApiDoc);
+
+    const target = options.target || DEFAULT_TARGET;
+    if (!SCHEMA_TARGETS.includes(target)) {
+      throw new Error(`Unknown target ${target}; expected one of ${SCHEMA_TARGETS.join(', ')}`);
+    }
+    // The client, server, mock and test runtimes call Zod methods directly
+    const runtimes = (['client', 'server', 'mocks', 'msw', 'tests'] as const).filter(option => options[option]);
+    if (runtimes.length > 0 && !RUNTIME_TARGETS.includes(target)) {
+      throw new Error(`Target ${target} only generates schemas; ${runtimes.join(', ')} need ${RUNTIME_TARGETS.join(' or ')}`);
+    }
+    validateFormatOptions(options.formats);
+    if (options.coerce && !COERCE_MODES.includes(options.coerce)) {
+      throw new Error(`Unknown coerce mode ${options.coerce}; expected one of ${COERCE_MODES.join(', ')}`);
+    }
+  }
+
+  // Problems found by `generate()`, such as discriminators that fall back to a plain union
+  get diagnostics(): Diagnostic[] {
+    return this.collector.diagnostics;
   }
 
   generate(): GeneratedFile[] {
-    const componentGenerator = new ComponentGenerator(this.openApiDoc.components?.schemas || {});
-    const operationGenerator = new OperationGenerator(this.openApiDoc);
+    const { profiler } = this;
+    const componentFiles = profiler.phase('components', () =>
+      new ComponentGenerator(this.openApiDoc, this.options, profiler, this.collector).generateComponentSchemas());
+    
+    const operationGenerator = new OperationGenerator(this.openApiDoc, this.options, profiler, this.collector);
+    const operationFiles = profiler.phase('operations', () => operationGenerator.generateOperationSchemas());
+    const sharedFiles = profiler.phase('shared components', () => operationGenerator.generateSharedComponents());
+    const webhookFiles = profiler.phase('webhooks', () => operationGenerator.generateWebhookSchemas());
+    
+    const files = [...componentFiles, ...sharedFiles, ...operationFiles, ...webhookFiles, operationGenerator.generateOperationManifest()];
+    
+    if (this.options.client) {
+      profiler.phase('client', () => {
+        const clientGenerator = new ClientGenerator(operationGenerator.collectOperations(), this.options);
+        files.push(clientGenerator.generateClient());
+      });
+    }
     
-    const componentFiles = componentGenerator.generateComponentSchemas();
-    const operationFiles = operationGenerator.generateOperationSchemas();
+    if (this.options.server) {
+      profiler.phase('server', () => {
+        const serverGenerator = new ServerGenerator(operationGenerator.collectOperations(), this.options);
+        files.push(...serverGenerator.generateServerFiles());
+      });
+    }
     
-    return [...componentFiles, ...operationFiles];
+    if (this.options.mocks || this.options.msw) {
+      profiler.phase('mocks', () => {
+        const mockGenerator = new MockGenerator(this.openApiDoc.components?.schemas || {}, operationGenerator.collectOperations(), this.options);
+        files.push(...mockGenerator.generateMockFiles());
+      });
+    }
+    
+    if (this.options.tests) {
+      profiler.phase('tests', () => {
+        const operations = operationGenerator.collectOperations();
+        const testGenerator = new TestGenerator(this.openApiDoc, operations, this.options);
+        files.push(...testGenerator.generateTestFiles());
+        // Tests mock valid values for schemas without an example
+        if (!this.options.mocks && !this.options.msw) {
+          files.push(...new MockGenerator(this.openApiDoc.components?.schemas || {}, operations, this.options).generateRuntimeFiles());
+        }
+      });
+    }
+    
+    return files.map(file => this.applyFileHooks(file, this.options.plugins || []));
+  }
+
+  private applyFileHooks(file: GeneratedFile, plugins: ZodPlugin[]): GeneratedFile {
+    return plugins.reduce((current, plugin) => {
+      if (!plugin.onFile) return current;
+      const imports: string[] = [];
+      const result = plugin.onFile(current, { addImport: statement => imports.push(statement) }) || current;
+      return imports.length > 0 ? { ...result, content: this.insertImports(result.content, imports) } : result;
+    }, file);
+  }
+
+  private insertImports(content: string, imports: string[]): string {
+    // New imports go right after the file's leading import block
+    const lines = content.split('\n');
+    const missing = imports.filter(statement => !lines.includes(statement));
+    let index = 0;
+    while (index < lines.length && lines[index].startsWith('import ')) index++;
+    lines.splice(index, 0, ...missing);
+    return lines.join('\n');
   }
 }
\ No newline at end of file
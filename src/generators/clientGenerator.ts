@@ -0,0 +1,349 @@
+import { OperationSchema, GeneratedFile, GeneratorOptions, ParameterLocation } from '../types.js';
+import { formatPropertyKey, escapeComment } from '../utils/helpers.js';
+import { getParameterStyle, getParameterExplode } from '../utils/parameters.js';
+import {
+  DEFAULT_JSON_MEDIA_TYPES,
+  isJsonMediaType,
+  isFormMediaType,
+  isTextMediaType,
+  getContentExportNames
+} from '../utils/mediaTypes.js';
+import { Naming } from '../utils/naming.js';
+
+const PARAMETER_INPUTS: Record<ParameterLocation, { key: string; exportName: string }> = {
+  path: { key: 'path', exportName: 'PathParams' },
+  query: { key: 'query', exportName: 'QueryParams' },
+  header: { key: 'headers', exportName: 'Headers' },
+  cookie: { key: 'cookies', exportName: 'Cookies' }
+};
+
+// Shared runtime emitted at the top of client.ts
+const CLIENT_RUNTIME = `export type Fetch = (input: string, init: RequestInit) => Promise<Response>;
+
+export interface ClientOptions {
+  baseUrl: string;
+  fetch?: Fetch;
+  headers?: Record<string, string>;
+}
+
+export class UnexpectedResponseError extends Error {
+  readonly response: Response;
+
+  constructor(response: Response) {
+    super(\`Unexpected response status \${response.status}\`);
+    this.name = 'UnexpectedResponseError';
+    this.response = response;
+  }
+}
+
+type BodyFormat = 'json' | 'form' | 'multipart' | 'text' | 'blob' | 'bytes';
+
+interface MediaDefinition {
+  mediaType: string;
+  format: BodyFormat;
+  schema: z.ZodTypeAny;
+}
+
+interface OperationDefinition {
+  method: string;
+  path: string;
+  query?: Record<string, { style: string; explode: boolean }>;
+  // Accepted request media types; the first is sent unless the input picks another
+  body?: MediaDefinition[];
+  responses: Record<string, MediaDefinition[]>;
+}
+
+interface OperationInput {
+  path?: Record<string, unknown>;
+  query?: Record<string, unknown>;
+  headers?: Record<string, unknown>;
+  cookies?: Record<string, unknown>;
+  contentType?: string;
+  body?: unknown;
+}
+
+type Digit = 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9;
+type ToNumber<T> = T extends \`\${infer N extends number}\` ? N : never;
+
+/** Status codes of a class, e.g. \`StatusRange<4>\` for 4XX */
+export type StatusRange<Class extends number> = ToNumber<\`\${Class}\${Digit}\${Digit}\`>;
+/** Every status code \`default\` can stand for */
+export type AnyStatus = StatusRange<1 | 2 | 3 | 4 | 5>;
+
+const QUERY_DELIMITERS: Record<string, string> = { form: ',', spaceDelimited: ' ', pipeDelimited: '|' };
+
+function buildUrl(baseUrl: string, definition: OperationDefinition, input: OperationInput): string {
+  const path = definition.path.replace(/\\{([^}]+)\\}/g, (_, name: string) => {
+    const value = input.path?.[name];
+    return encodeURIComponent(Array.isArray(value) ? value.join(',') : String(value));
+  });
+
+  const search = new URLSearchParams();
+  Object.entries(input.query || {}).forEach(([name, value]) => {
+    if (value === undefined) return;
+    const { style = 'form', explode = true } = definition.query?.[name] || {};
+    if (style === 'deepObject' && value && typeof value === 'object') {
+      Object.entries(value).forEach(([key, item]) => search.append(\`\${name}[\${key}]\`, String(item)));
+    } else if (Array.isArray(value)) {
+      if (explode) value.forEach(item => search.append(name, String(item)));
+      else search.append(name, value.join(QUERY_DELIMITERS[style] ?? ','));
+    } else {
+      search.append(name, String(value));
+    }
+  });
+
+  const query = search.toString();
+  return \`\${baseUrl.replace(/\\/$/, '')}\${path}\${query ? \`?\${query}\` : ''}\`;
+}
+
+function appendFormValue(append: (name: string, value: string | Blob) => void, name: string, value: unknown): void {
+  if (value === undefined) return;
+  if (Array.isArray(value)) value.forEach(item => appendFormValue(append, name, item));
+  else if (value instanceof Blob) append(name, value);
+  else if (value instanceof Uint8Array) append(name, new Blob([value as BlobPart]));
+  else if (value !== null && typeof value === 'object') append(name, JSON.stringify(value));
+  else append(name, String(value));
+}
+
+// JSON has no bigints: they are sent as numbers when that loses nothing, otherwise as decimal strings
+function replaceBigInt(_key: string, value: unknown): unknown {
+  if (typeof value !== 'bigint') return value;
+  return Number.isSafeInteger(Number(value)) ? Number(value) : value.toString();
+}
+
+function serializeBody(body: MediaDefinition, value: unknown): { body: BodyInit; contentType?: string } {
+  switch (body.format) {
+    case 'json':
+      return { body: JSON.stringify(value, replaceBigInt), contentType: body.mediaType };
+    case 'multipart': {
+      // The boundary is added by fetch, so no content type is set here
+      const form = new FormData();
+      Object.entries(value as Record<string, unknown>).forEach(([name, item]) => {
+        appendFormValue((key, part) => form.append(key, part), name, item);
+      });
+      return { body: form };
+    }
+    case 'form': {
+      const search = new URLSearchParams();
+      Object.entries(value as Record<string, unknown>).forEach(([name, item]) => {
+        appendFormValue((key, part) => search.append(key, String(part)), name, item);
+      });
+      return { body: search, contentType: body.mediaType };
+    }
+    case 'text':
+      return { body: String(value), contentType: body.mediaType };
+    default:
+      return { body: value as BodyInit, contentType: body.mediaType };
+  }
+}
+
+function selectResponse(definition: OperationDefinition, status: number): MediaDefinition[] | undefined {
+  const range = \`\${Math.floor(status / 100)}XX\`;
+  return definition.responses[String(status)]
+    ?? definition.responses[range]
+    ?? definition.responses[range.toLowerCase()]
+    ?? definition.responses.default;
+}
+
+async function request<TResult>(
+  options: ClientOptions,
+  definition: OperationDefinition,
+  input: OperationInput
+): Promise<TResult> {
+  const headers: Record<string, string> = { ...options.headers };
+  Object.entries(input.headers || {}).forEach(([name, value]) => {
+    if (value !== undefined) headers[name] = String(value);
+  });
+  const cookies = Object.entries(input.cookies || {})
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => \`\${name}=\${encodeURIComponent(String(value))}\`);
+  if (cookies.length > 0) headers.cookie = cookies.join('; ');
+
+  const init: RequestInit = { method: definition.method, headers };
+  const media = definition.body?.find(candidate => candidate.mediaType === input.contentType) ?? definition.body?.[0];
+  if (media && input.body !== undefined) {
+    // Parsing may turn values into their in-memory form (Dates, int64 strings), so the body is sent as given
+    media.schema.parse(input.body);
+    const serialized = serializeBody(media, input.body);
+    init.body = serialized.body;
+    if (serialized.contentType) headers['content-type'] = serialized.contentType;
+  }
+
+  const fetcher = options.fetch ?? fetch;
+  const response = await fetcher(buildUrl(options.baseUrl, definition, input), init);
+
+  const candidates = selectResponse(definition, response.status);
+  if (!candidates) throw new UnexpectedResponseError(response);
+
+  let data: unknown = undefined;
+  if (candidates.length > 0) {
+    const contentType = (response.headers.get('content-type') || '').split(';')[0].trim().toLowerCase();
+    const media = candidates.find(candidate => candidate.mediaType === contentType) ?? candidates[0];
+    let raw: unknown;
+    if (media.format === 'json') raw = await response.json();
+    else if (media.format === 'text') raw = await response.text();
+    else raw = media.format === 'bytes' ? new Uint8Array(await response.arrayBuffer()) : await response.blob();
+    data = media.schema.parse(raw);
+  }
+
+  return { status: response.status, data, response } as TResult;
+}`;
+
+export class ClientGenerator {
+  private operations: OperationSchema[];
+  private jsonMediaTypes: string[];
+  private naming: Naming;
+  // Binary bodies are read as Uint8Arrays rather than Blobs
+  private bytes: boolean;
+
+  constructor(operations: OperationSchema[], options: GeneratorOptions = {}) {
+    this.operations = operations;
+    this.jsonMediaTypes = options.jsonMediaTypes || DEFAULT_JSON_MEDIA_TYPES;
+    this.bytes = options.formats?.binary === 'Uint8Array';
+    this.naming = new Naming(options, [], operations.map(opSchema => opSchema.operationId));
+  }
+
+  generateClient(): GeneratedFile {
+    const imports: string[] = ["import { z } from 'zod';"];
+    const resultTypes: string[] = [];
+    const methods: string[] = [];
+
+    this.operations.forEach(opSchema => {
+      const namespace = this.naming.operationNamespace(opSchema.operationId);
+      imports.push(`import * as ${namespace} from '${this.naming.operationImport(opSchema.operationId, true)}';`);
+
+      resultTypes.push(...this.generateResultType(opSchema, namespace));
+      resultTypes.push('');
+      methods.push(this.generateMethod(opSchema, namespace).join('\n'));
+    });
+
+    const content = [
+      ...imports,
+      '',
+      CLIENT_RUNTIME,
+      '',
+      ...resultTypes,
+      '/**',
+      ' * Create a client exposing one function per operation',
+      ' */',
+      'export function createClient(options: ClientOptions) {',
+      '  return {',
+      methods.join(',\n'),
+      '  };',
+      '}',
+      ''
+    ].join('\n');
+
+    return {
+      fileName: 'client.ts',
+      content
+    };
+  }
+
+  private generateResultType(opSchema: OperationSchema, namespace: string): string[] {
+    const statusCodes = Object.keys(opSchema.responses);
+    const variants = Object.entries(opSchema.responses).map(([statusCode, response]) => {
+      const names = Object.values(getContentExportNames(Object.keys(response.content), this.naming.responseName(statusCode)));
+      const data = names.length > 0
+        ? names.map(name => `${namespace}.${this.naming.typeName(name)}`).join(' | ')
+        : 'undefined';
+      return `  | { status: ${this.generateStatusType(statusCode, statusCodes)}; data: ${data}; response: Response }`;
+    });
+
+    return [
+      `export type ${namespace}Result =`,
+      ...(variants.length > 0 ? variants : ['  never']),
+      ';'
+    ];
+  }
+
+  // Ranges and `default` leave out the statuses declared on their own, so checking `status` narrows the result
+  private generateStatusType(statusCode: string, statusCodes: string[]): string {
+    if (/^\d{3}$/.test(statusCode)) return statusCode;
+    const exact = statusCodes.filter(code => /^\d{3}$/.test(code));
+    const ranges = statusCodes.filter(code => /^\dXX$/i.test(code)).map(code => `StatusRange<${code[0]}>`);
+    const range = /^\dXX$/i.test(statusCode) ? `StatusRange<${statusCode[0]}>` : 'AnyStatus';
+    const excluded = range === 'AnyStatus' ? [...exact, ...ranges] : exact.filter(code => code[0] === statusCode[0]);
+    return excluded.length > 0 ? `Exclude<${range}, ${excluded.join(' | ')}>` : range;
+  }
+
+  private generateMethod(opSchema: OperationSchema, namespace: string): string[] {
+    const inputFields: string[] = [];
+    const definition: string[] = [
+      `method: '${opSchema.method}'`,
+      `path: ${JSON.stringify(opSchema.path)}`
+    ];
+
+    (Object.keys(PARAMETER_INPUTS) as ParameterLocation[]).forEach(location => {
+      const parameters = opSchema.parameters.filter(parameter => parameter.in === location);
+      if (parameters.length === 0) return;
+      const { key, exportName } = PARAMETER_INPUTS[location];
+      const isRequired = location === 'path' || parameters.some(parameter => parameter.required);
+      inputFields.push(`${key}${isRequired ? '' : '?'}: z.input<typeof ${namespace}.${exportName}>`);
+    });
+
+    const queryStyles = opSchema.parameters
+      .filter(parameter => parameter.in === 'query')
+      .filter(parameter => getParameterStyle(parameter) !== 'form' || !getParameterExplode(parameter))
+      .map(parameter => `${formatPropertyKey(parameter.name)}: { style: '${getParameterStyle(parameter)}', explode: ${getParameterExplode(parameter)} }`);
+    if (queryStyles.length > 0) {
+      definition.push(`query: { ${queryStyles.join(', ')} }`);
+    }
+
+    // JSON bodies are sent by default when several media types are accepted; `contentType` picks another
+    const requestMediaTypes = Object.keys(opSchema.request);
+    const preferred = requestMediaTypes.find(mediaType => isJsonMediaType(mediaType, this.jsonMediaTypes)) ?? requestMediaTypes[0];
+    const orderedMediaTypes = preferred ? [preferred, ...requestMediaTypes.filter(mediaType => mediaType !== preferred)] : [];
+    const requestNames = getContentExportNames(requestMediaTypes, 'Request');
+    const bodyField = `body${opSchema.requestRequired ? '' : '?'}`;
+    const bodyVariants = orderedMediaTypes.map((mediaType, index) => {
+      const body = `${bodyField}: z.input<typeof ${namespace}.${requestNames[mediaType]}>`;
+      if (orderedMediaTypes.length === 1) return body;
+      return `{ contentType${index === 0 ? '?' : ''}: ${JSON.stringify(mediaType)}; ${body} }`;
+    });
+    if (bodyVariants.length === 1) inputFields.push(bodyVariants[0]);
+    if (orderedMediaTypes.length > 0) {
+      const media = orderedMediaTypes.map(mediaType => this.generateMediaDefinition(mediaType, `${namespace}.${requestNames[mediaType]}`));
+      definition.push(`body: [${media.join(', ')}]`);
+    }
+
+    const responses = Object.entries(opSchema.responses).map(([statusCode, response]) => {
+      const names = getContentExportNames(Object.keys(response.content), this.naming.responseName(statusCode));
+      const media = Object.entries(names)
+        .map(([mediaType, name]) => this.generateMediaDefinition(mediaType, `${namespace}.${name}`));
+      return `${JSON.stringify(statusCode)}: [${media.join(', ')}]`;
+    });
+    definition.push(`responses: { ${responses.join(', ')} }`);
+
+    const hasRequiredInput = inputFields.some(field => !/^\w+\?:/.test(field))
+      || (bodyVariants.length > 1 && !!opSchema.requestRequired);
+    const types = [
+      ...(inputFields.length > 0 ? [`{ ${inputFields.join('; ')} }`] : []),
+      ...(bodyVariants.length > 1 ? [`(${bodyVariants.join(' | ')})`] : [])
+    ];
+    const inputType = types.join(' & ');
+    const parameter = types.length === 0
+      ? 'input: {} = {}'
+      : hasRequiredInput ? `input: ${inputType}` : `input: ${inputType} = {}`;
+
+    return [
+      '    /**',
+      `     * ${escapeComment(opSchema.summary)}`,
+      `     * ${opSchema.method} ${escapeComment(opSchema.path)}`,
+      '     */',
+      `    ${this.naming.operationMethod(opSchema.operationId)}: (${parameter}) =>`,
+      `      request<${namespace}Result>(options, {`,
+      ...definition.map((entry, index) => `        ${entry}${index < definition.length - 1 ? ',' : ''}`),
+      '      }, input)'
+    ];
+  }
+
+  private generateMediaDefinition(mediaType: string, schema: string): string {
+    let format = this.bytes ? 'bytes' : 'blob';
+    if (isJsonMediaType(mediaType, this.jsonMediaTypes)) format = 'json';
+    else if (mediaType.startsWith('multipart/')) format = 'multipart';
+    else if (isFormMediaType(mediaType)) format = 'form';
+    else if (isTextMediaType(mediaType)) format = 'text';
+    return `{ mediaType: ${JSON.stringify(mediaType)}, format: '${format}', schema: ${schema} }`;
+  }
+}
@@ -1,103 +1,176 @@
-import { Schema, GeneratedFile } from '../types.js';
+import { OpenAPIDocument, Schema, GeneratedFile, GeneratorOptions } from '../types.js';
 import { TypeConverter } from '../utils/typeConverter.js';
-import { generateDescription, getPropertyType } from '../utils/helpers.js';
+import { SchemaEmitter } from '../emitters/emitter.js';
+import { SchemaNode } from '../emitters/schemaNode.js';
+import { emitType } from '../emitters/typeEmitter.js';
+import { createEmitter } from '../emitters/targets.js';
+import { Naming } from '../utils/naming.js';
+import { Profiler } from '../utils/profiler.js';
+import { resolveOverrides } from '../utils/overrides.js';
+import { DiagnosticCollector } from '../utils/diagnostics.js';
+import { findVisibilityVariants, isVisible } from '../utils/visibility.js';
+import { findRecursiveGroups } from '../utils/recursion.js';
+import { generateDescription, getPropertyType, escapeComment } from '../utils/helpers.js';
 
 export class ComponentGenerator {
   private schemas: Record<string, Schema>;
   private typeConverter: TypeConverter;
-  private generatedSchemas = new Map<string, GeneratedFile>();
-  private processingStack = new Set<string>();
+  private inputConverter: TypeConverter;
+  private naming: Naming;
+  private emitter: SchemaEmitter;
+  private profiler: Profiler;
+  private variants: Set<string>;
+  // Members of each recursive group, keyed by every member
+  private groups: Map<string, string[]>;
 
-  constructor(schemas: Record<string, Schema>) {
-    this.schemas = schemas;
-    this.typeConverter = new TypeConverter(schemas);
+  constructor(
+    openApiDoc: OpenAPIDocument,
+    options: GeneratorOptions = {},
+    profiler = new Profiler(),
+    diagnostics = new DiagnosticCollector(openApiDoc)
+  ) {
+    this.schemas = openApiDoc.components?.schemas || {};
+    this.profiler = profiler;
+    this.naming = new Naming(options, Object.keys(this.schemas));
+    this.variants = findVisibilityVariants(this.schemas);
+    this.groups = new Map(findRecursiveGroups(this.schemas).flatMap(group => group.map(name => [name, group] as const)));
+    this.emitter = createEmitter(options.target);
+    const converterOptions = {
+      emitter: this.emitter,
+      naming: this.naming,
+      overrides: resolveOverrides(openApiDoc, options.overrides, diagnostics),
+      plugins: options.plugins || [],
+      formats: options.formats || {},
+      diagnostics,
+      variants: this.variants
+    };
+    // The main schema describes responses; components with readOnly/writeOnly properties also get an input variant
+    this.typeConverter = new TypeConverter(this.schemas, openApiDoc.openapi, { ...converterOptions, visibility: 'output' });
+    this.inputConverter = new TypeConverter(this.schemas, openApiDoc.openapi, { ...converterOptions, visibility: 'input' });
   }
 
   generateComponentSchemas(): GeneratedFile[] {
     const files: GeneratedFile[] = [];
     
-    // Generate all component schema files
+    // Generate all component schema files; other members of a recursive group re-export from its first member's module
     Object.keys(this.schemas).forEach(name => {
-      const schemaFile = this.generateSchemaFile(name);
-      if (schemaFile) {
-        files.push({
-          dirName: '_components',
-          fileName: schemaFile.fileName,
-          content: schemaFile.content
-        });
-      }
+      const group = this.groups.get(name);
+      const schemaFile = this.profiler.module(() => {
+        const file = group && group[0] !== name ? this.generateReexportFile(name, group[0]) : this.generateSchemaFile(group || [name]);
+        return { ...file, dirName: this.naming.componentsDir };
+      });
+      files.push(schemaFile);
     });
     
     return files;
   }
 
-  private generateSchemaFile(name: string): GeneratedFile | null {
-    if (this.generatedSchemas.has(name)) {
-      return this.generatedSchemas.get(name)!;
-    }
-    
-    // Check for circular dependency
-    if (this.processingStack.has(name)) {
-      console.log(`Detected circular reference for schema: ${name}`);
-      return null;
-    }
-    
-    const schema = this.schemas[name];
-    if (!schema) return null;
-    
-    this.processingStack.add(name);
+  // Declares the given components in one module. Refs between them are lazy, so cyclic groups
+  // declare their members without import cycles and in any order.
+  private generateSchemaFile(members: string[]): GeneratedFile {
+    const recursive = this.groups.has(members[0]);
+    const conversions = members.map(name => ({
+      name,
+      schema: this.typeConverter.convertNode(this.schemas[name], members, name),
+      inputSchema: this.variants.has(name) ? this.inputConverter.convertNode(this.schemas[name], members, name) : null
+    }));
+    
+    // Build import statements for dependencies, grouping both variants of a component
+    const imports: string[] = [];
+    imports.push(this.emitter.importStatement);
     
-    const zodSchema = this.typeConverter.convertType(schema, [name], name);
+    const depNames = new Map<string, Set<string>>();
+    const addDeps = (converter: TypeConverter) => converter.takeReferences().forEach(depName => {
+      if (members.includes(depName) || !this.schemas[depName]) return;
+      depNames.set(depName, (depNames.get(depName) || new Set()).add(converter.schemaRef(depName)));
+    });
+    addDeps(this.typeConverter);
+    addDeps(this.inputConverter);
+    depNames.forEach((identifiers, depName) => {
+      imports.push(`import { ${Array.from(identifiers).join(', ')} } from '${this.naming.componentImport(depName, true)}';`);
+    });
     
-    // Build import statements for dependencies
-    const imports: string[] = [];
-    imports.push("import { z } from 'zod';");
+    // Recursive schemas cannot have their type inferred, so members refer to each other's written-out types
+    const groupIdentifiers = new Set(members.flatMap(name => [this.typeConverter.schemaRef(name), this.inputConverter.schemaRef(name)]));
+    const refType = (identifier: string) => groupIdentifiers.has(identifier) ? this.naming.typeName(identifier) : this.emitter.inferType(identifier);
+    const declare = (identifier: string, node: SchemaNode) => {
+      const typeName = this.naming.typeName(identifier);
+      return recursive
+        ? [
+          `export const ${identifier}: ${this.emitter.schemaAnnotation(typeName)} = ${this.emitter.emit(node)};`,
+          `export type ${typeName} = ${emitType(node, refType, true)};`
+        ]
+        : [`export const ${identifier} = ${this.emitter.emit(node)};`, `export type ${typeName} = ${this.emitter.inferType(identifier)};`];
+    };
     
-    const deps = this.typeConverter.getDependencies(name);
-    deps.forEach(depName => {
-      if (this.schemas[depName]) {
-        imports.push(`import { ${depName} } from './${depName}.js';`);
+    const body: string[] = [];
+    conversions.forEach(({ name, schema, inputSchema }) => {
+      const schemaName = this.naming.schemaName(name);
+      const description = this.schemas[name].description || generateDescription(name);
+      body.push(...this.generateJsDoc(name, description), ...declare(schemaName, schema), '');
+      
+      if (inputSchema) {
+        body.push(
+          '/**',
+          ` * ${escapeComment(description)}`,
+          ' *',
+          ` * Input variant of ${schemaName} for request bodies: readOnly properties are left out, writeOnly ones kept`,
+          ' */',
+          ...declare(this.naming.inputName(name), inputSchema),
+          ''
+        );
       }
     });
     
-    // Generate JSDoc comment
-    const description = schema.description || generateDescription(name);
+    // Plugin hooks run as nodes are emitted and may add imports, so these are collected last
+    imports.push(...this.typeConverter.takeImports(), ...this.inputConverter.takeImports());
+    
+    return {
+      fileName: `${this.naming.componentFile(members[0])}.ts`,
+      content: [...imports, '', ...body].join('\n')
+    };
+  }
+
+  private generateJsDoc(name: string, description: string): string[] {
+    const schema = this.schemas[name];
     const properties = schema.properties || {};
     const required = schema.required || [];
     
+    const schemaName = this.naming.schemaName(name);
     const jsDoc: string[] = ['/**'];
-    jsDoc.push(` * ${description}`);
+    jsDoc.push(` * ${escapeComment(description)}`);
+    if (schemaName !== name) {
+      // Keep the mapping back to the spec visible when the name had to be sanitized
+      jsDoc.push(' *');
+      jsDoc.push(` * Original name: ${escapeComment(name)}`);
+    }
     
     // Add property descriptions if available
     if (Object.keys(properties).length > 0) {
       jsDoc.push(' *');
-      Object.entries(properties).forEach(([propName, propSchema]) => {
+      Object.entries(properties).filter(([, propSchema]) => isVisible(propSchema, 'output')).forEach(([propName, propSchema]) => {
         const isRequired = required.includes(propName);
         const propDescription = propSchema.description || propName;
         const propType = getPropertyType(propSchema);
-        jsDoc.push(` * @property {${propType}} ${propName}${isRequired ? '' : '?'} - ${propDescription}`);
+        jsDoc.push(escapeComment(` * @property {${propType}} ${propName}${isRequired ? '' : '?'} - ${propDescription}`));
       });
     }
     
     jsDoc.push(' */');
-    
-    const content = [
-      ...imports,
-      '',
-      ...jsDoc,
-      `export const ${name} = ${zodSchema};`,
-      `export type ${name}Type = z.infer<typeof ${name}>;`,
-      ''
-    ].join('\n');
-    
-    const result: GeneratedFile = {
-      fileName: `${name}.ts`,
-      content: content
+    return jsDoc;
+  }
+
+  // Keeps a component's own import path when it is declared in the module of its recursive group
+  private generateReexportFile(name: string, moduleName: string): GeneratedFile {
+    const identifiers = [this.naming.schemaName(name), ...(this.variants.has(name) ? [this.naming.inputName(name)] : [])];
+    const from = this.naming.componentImport(moduleName, true);
+    return {
+      fileName: `${this.naming.componentFile(name)}.ts`,
+      content: [
+        `export { ${identifiers.join(', ')} } from '${from}';`,
+        `export type { ${identifiers.map(identifier => this.naming.typeName(identifier)).join(', ')} } from '${from}';`,
+        ''
+      ].join('\n')
     };
-    
-    this.generatedSchemas.set(name, result);
-    this.processingStack.delete(name);
-    
-    return result;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,483 @@
+import { Schema, OperationSchema, GeneratedFile, GeneratorOptions } from '../types.js';
+import { getSchemaTypes, escapeComment } from '../utils/helpers.js';
+import { DEFAULT_JSON_MEDIA_TYPES, isJsonMediaType, getContentExportNames } from '../utils/mediaTypes.js';
+import { Naming } from '../utils/naming.js';
+
+// Seeded generator shared by every mock factory; it walks the raw OpenAPI schemas
+const MOCK_RUNTIME = `import { binaryFormat, componentSchemas } from './schemas.js';
+
+export interface MockOptions {
+  /** Seed for the pseudo-random generator (default: 1) */
+  seed?: number;
+  /** Number of nested $ref levels to follow before only required data is generated (default: 3) */
+  maxDepth?: number;
+}
+
+type JsonSchema = Record<string, any>;
+
+interface MockContext {
+  random: () => number;
+  maxDepth: number;
+  // Components being generated past the depth limit, and how often one of them was cut short
+  expanding: Set<string>;
+  cycles: number;
+}
+
+// Marks a value dropped because the depth limit was reached
+const OMIT = Symbol('omit');
+
+const WORDS = ['alpha', 'bravo', 'charlie', 'delta', 'echo', 'foxtrot', 'golf', 'hotel', 'india', 'juliet', 'kilo', 'lima'];
+
+function createRandom(seed: number): () => number {
+  // mulberry32
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function randomInt(ctx: MockContext, min: number, max: number): number {
+  return min + Math.floor(ctx.random() * (max - min + 1));
+}
+
+function pick<T>(ctx: MockContext, items: T[]): T {
+  return items[randomInt(ctx, 0, items.length - 1)];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function getRefName(ref: string): string {
+  const segment = ref.slice(ref.lastIndexOf('/') + 1);
+  return decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+function inferType(schema: JsonSchema): string | undefined {
+  if (schema.properties || schema.additionalProperties !== undefined) return 'object';
+  if (schema.items || schema.prefixItems) return 'array';
+  if (schema.minimum !== undefined || schema.maximum !== undefined) return 'number';
+  if (schema.format || schema.pattern || schema.minLength !== undefined || schema.maxLength !== undefined) return 'string';
+  return undefined;
+}
+
+function isNullable(schema: JsonSchema): boolean {
+  return schema.nullable === true || (Array.isArray(schema.type) ? schema.type.includes('null') : schema.type === 'null');
+}
+
+// Examples are only used when they have the declared type; specs sometimes describe the wire format instead
+function fitsType(schema: JsonSchema, value: unknown): boolean {
+  const types: string[] = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  if (types.length === 0) return true;
+  if (value === null) return isNullable(schema);
+  return types.some(type => {
+    switch (type) {
+      case 'integer': return Number.isInteger(value);
+      case 'array': return Array.isArray(value);
+      case 'object': return isObject(value);
+      default: return typeof value === type;
+    }
+  });
+}
+
+function fitLength(schema: JsonSchema, value: string): string {
+  const minLength = schema.minLength ?? 0;
+  const maxLength = schema.maxLength ?? Math.max(minLength, value.length);
+  let result = value;
+  while (result.length < minLength) result += 'x';
+  return result.slice(0, maxLength);
+}
+
+function generateBinary(ctx: MockContext): Blob | Uint8Array {
+  const bytes = new TextEncoder().encode(pick(ctx, WORDS));
+  return binaryFormat === 'Uint8Array' ? bytes : new Blob([bytes]);
+}
+
+function generateString(schema: JsonSchema, ctx: MockContext): string | Blob | Uint8Array {
+  // Binary strings (3.0 \`format: binary\`, 3.1 \`contentMediaType\` without encoding) are files
+  if (schema.format === 'binary' || (schema.contentMediaType && !schema.contentEncoding)) return generateBinary(ctx);
+
+  const word = pick(ctx, WORDS);
+  const day = Date.UTC(2020, 0, 1) + randomInt(ctx, 0, 365 * 3) * 86400000;
+  const hex = (length: number) => Array.from({ length }, () => randomInt(ctx, 0, 15).toString(16)).join('');
+
+  switch (schema.format) {
+    case 'date-time':
+      return new Date(day + randomInt(ctx, 0, 86399) * 1000).toISOString();
+    case 'date':
+      return new Date(day).toISOString().slice(0, 10);
+    case 'time':
+      return new Date(randomInt(ctx, 0, 86399) * 1000).toISOString().slice(11, 19);
+    case 'duration':
+      return \`P\${randomInt(ctx, 1, 30)}D\`;
+    case 'email':
+      return \`\${word}\${randomInt(ctx, 1, 999)}@example.com\`;
+    case 'uuid':
+      return \`\${hex(8)}-\${hex(4)}-4\${hex(3)}-\${pick(ctx, ['8', '9', 'a', 'b'])}\${hex(3)}-\${hex(12)}\`;
+    case 'uri':
+    case 'url':
+      return \`https://example.com/\${word}\`;
+    case 'hostname':
+      return \`\${word}.example.com\`;
+    case 'ipv4':
+      return Array.from({ length: 4 }, () => randomInt(ctx, 1, 254)).join('.');
+    case 'ipv6':
+      return Array.from({ length: 8 }, () => hex(4)).join(':');
+    case 'byte':
+      return btoa(word);
+  }
+
+  const text = fitLength(schema, \`\${word} \${pick(ctx, WORDS)}\`);
+  if (!schema.pattern) return text;
+
+  // Patterns cannot be reversed in general; try a few simple shapes
+  const pattern = new RegExp(schema.pattern);
+  const length = Math.max(schema.minLength ?? 1, Math.min(schema.maxLength ?? 8, 8));
+  const candidates = [
+    text,
+    Array.from({ length }, () => randomInt(ctx, 0, 9)).join(''),
+    word.repeat(length).slice(0, length),
+    word.repeat(length).slice(0, length).toUpperCase(),
+    hex(length)
+  ];
+  return candidates.find(candidate => pattern.test(candidate)) ?? text;
+}
+
+function generateNumber(schema: JsonSchema, type: string, ctx: MockContext): number {
+  const step = type === 'integer' ? 1 : 0.01;
+  let lower = schema.minimum ?? (typeof schema.exclusiveMinimum === 'number' ? schema.exclusiveMinimum : 0);
+  if (schema.exclusiveMinimum === true || typeof schema.exclusiveMinimum === 'number') lower += step;
+  let upper = schema.maximum ?? (typeof schema.exclusiveMaximum === 'number' ? schema.exclusiveMaximum : lower + 1000);
+  if (schema.exclusiveMaximum === true || typeof schema.exclusiveMaximum === 'number') upper -= step;
+
+  if (schema.multipleOf) {
+    const multiple = randomInt(ctx, Math.ceil(lower / schema.multipleOf), Math.floor(upper / schema.multipleOf));
+    return multiple * schema.multipleOf;
+  }
+  if (type === 'integer') return randomInt(ctx, Math.ceil(lower), Math.floor(upper));
+  return Math.round((lower + ctx.random() * (upper - lower)) * 100) / 100;
+}
+
+// Past the depth limit (\`depth > maxDepth\`) only the smallest valid value is generated: required keys,
+// as few items as allowed and \`null\` where it is allowed
+function isMinimal(ctx: MockContext, depth: number): boolean {
+  return depth > ctx.maxDepth;
+}
+
+function generateObject(schema: JsonSchema, ctx: MockContext, depth: number): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  const required: string[] = schema.required || [];
+
+  Object.entries<JsonSchema>(schema.properties || {}).forEach(([key, property]) => {
+    if (!required.includes(key)) {
+      if (isMinimal(ctx, depth)) return;
+      const value = generate(property, ctx, depth);
+      if (value !== OMIT) result[key] = value;
+      return;
+    }
+    // Required values that reach the depth limit are generated in their smallest form instead
+    const value = generate(property, ctx, depth);
+    result[key] = value !== OMIT ? value : generate(property, ctx, ctx.maxDepth + 1);
+  });
+
+  return result;
+}
+
+function generateArray(schema: JsonSchema, ctx: MockContext, depth: number): unknown[] {
+  const minItems = schema.minItems ?? (isMinimal(ctx, depth) ? 0 : 1);
+  const maxItems = Math.min(schema.maxItems ?? minItems + 2, minItems + 2);
+  const count = isMinimal(ctx, depth) ? minItems : randomInt(ctx, minItems, Math.max(minItems, maxItems));
+  const items = Array.from({ length: count }, () => generate(schema.items, ctx, depth));
+  if (!items.some(item => item === OMIT)) return items;
+  return Array.from({ length: schema.minItems ?? 0 }, () => generate(schema.items, ctx, ctx.maxDepth + 1));
+}
+
+function pickVariant(variants: JsonSchema[], ctx: MockContext, depth: number): { variant: JsonSchema; value: unknown } {
+  if (!isMinimal(ctx, depth)) {
+    const variant = pick(ctx, variants);
+    return { variant, value: generate(variant, ctx, depth) };
+  }
+  // The smallest value comes from the first variant that does not lead back into a component being generated
+  const candidates = variants.map(variant => {
+    const cycles = ctx.cycles;
+    return { variant, value: generate(variant, ctx, depth), finite: ctx.cycles === cycles };
+  });
+  return candidates.find(candidate => candidate.finite) ?? candidates[0];
+}
+
+function generateVariant(schema: JsonSchema, variants: JsonSchema[], ctx: MockContext, depth: number): unknown {
+  const { variant, value } = pickVariant(variants, ctx, depth);
+  const discriminator = schema.discriminator;
+
+  // Set the discriminator to the value that selects the chosen variant
+  if (discriminator && variant.$ref && isObject(value)) {
+    const mapped = Object.entries<string>(discriminator.mapping || {})
+      .find(([, target]) => target === variant.$ref || target === getRefName(variant.$ref));
+    value[discriminator.propertyName] = mapped ? mapped[0] : getRefName(variant.$ref);
+  }
+  return value;
+}
+
+function generateRef(ref: string, ctx: MockContext, depth: number): unknown {
+  const name = getRefName(ref);
+  if (!isMinimal(ctx, depth)) {
+    // The caller leaves the value out, or asks for its smallest form
+    if (depth >= ctx.maxDepth) return OMIT;
+    return generate(componentSchemas[name], ctx, depth + 1);
+  }
+
+  // A component that requires itself has no finite value
+  if (ctx.expanding.has(name)) {
+    ctx.cycles++;
+    return null;
+  }
+  ctx.expanding.add(name);
+  const value = generate(componentSchemas[name], ctx, depth);
+  ctx.expanding.delete(name);
+  return value;
+}
+
+function generate(schema: JsonSchema | undefined, ctx: MockContext, depth: number): unknown {
+  if (!schema) return null;
+
+  if (schema.$ref) return generateRef(schema.$ref, ctx, depth);
+  if (isMinimal(ctx, depth) && isNullable(schema)) return null;
+
+  if (schema.example !== undefined && fitsType(schema, schema.example)) return structuredClone(schema.example);
+  if (Array.isArray(schema.examples) && schema.examples.length > 0 && fitsType(schema, schema.examples[0])) {
+    return structuredClone(schema.examples[0]);
+  }
+  if (schema.const !== undefined) return schema.const;
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return pick(ctx, schema.enum);
+
+  if (schema.allOf) {
+    const parts = schema.allOf.map((part: JsonSchema) => generate(part, ctx, depth));
+    if (parts.includes(OMIT)) return OMIT;
+    return parts.reduce((merged: Record<string, unknown>, value: unknown) => isObject(value) ? { ...merged, ...value } : merged, {});
+  }
+
+  const variants = schema.oneOf || schema.anyOf;
+  if (variants) return generateVariant(schema, variants, ctx, depth);
+
+  const types: string[] = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  const type = types.find(candidate => candidate !== 'null') ?? inferType(schema) ?? types[0];
+
+  switch (type) {
+    case 'string':
+      return generateString(schema, ctx);
+    case 'number':
+    case 'integer':
+      return generateNumber(schema, type, ctx);
+    case 'boolean':
+      return ctx.random() < 0.5;
+    case 'array':
+      return generateArray(schema, ctx, depth);
+    case 'object':
+      return generateObject(schema, ctx, depth);
+    default:
+      return null;
+  }
+}
+
+export function generateMock(schema: JsonSchema, options: MockOptions = {}): unknown {
+  const ctx: MockContext = { random: createRandom(options.seed ?? 1), maxDepth: options.maxDepth ?? 3, expanding: new Set(), cycles: 0 };
+  const value = generate(schema, ctx, 0);
+  return value === OMIT ? generate(schema, ctx, ctx.maxDepth + 1) : value;
+}
+`;
+
+export class MockGenerator {
+  private schemas: Record<string, Schema>;
+  private operations: OperationSchema[];
+  private options: GeneratorOptions;
+  private jsonMediaTypes: string[];
+  private naming: Naming;
+
+  constructor(schemas: Record<string, Schema>, operations: OperationSchema[], options: GeneratorOptions = {}) {
+    this.schemas = schemas;
+    this.operations = operations;
+    this.options = options;
+    this.jsonMediaTypes = options.jsonMediaTypes || DEFAULT_JSON_MEDIA_TYPES;
+    this.naming = new Naming(options, Object.keys(schemas), operations.map(opSchema => opSchema.operationId));
+  }
+
+  generateMockFiles(): GeneratedFile[] {
+    const files: GeneratedFile[] = [
+      ...this.generateRuntimeFiles(),
+      { dirName: '_mocks', fileName: 'components.ts', content: this.generateComponentMocks() }
+    ];
+
+    this.operations.forEach(opSchema => {
+      const content = this.generateOperationMocks(opSchema);
+      if (content) {
+        files.push({ dirName: this.naming.operationDir(opSchema.operationId), fileName: 'mocks.ts', content });
+      }
+    });
+
+    if (this.options.msw) {
+      files.push({ dirName: '_mocks', fileName: 'handlers.ts', content: this.generateHandlers() });
+    }
+
+    if (this.options.tests) {
+      files.push({ dirName: '_mocks', fileName: 'mocks.test.ts', content: this.generateMockTests() });
+    }
+
+    return files;
+  }
+
+  // The seeded generator on its own, which conformance tests also use for valid base values
+  generateRuntimeFiles(): GeneratedFile[] {
+    return [
+      { dirName: '_mocks', fileName: 'runtime.ts', content: MOCK_RUNTIME },
+      {
+        dirName: '_mocks',
+        fileName: 'schemas.ts',
+        content: [
+          `export const componentSchemas: Record<string, any> = ${JSON.stringify(this.schemas, null, 2)};`,
+          '',
+          '// How binary strings are mocked, following formats.binary',
+          `export const binaryFormat: 'Blob' | 'Uint8Array' = ${JSON.stringify(this.options.formats?.binary || 'Blob')};`,
+          ''
+        ].join('\n')
+      }
+    ];
+  }
+
+  private generateComponentMocks(): string {
+    const imports: string[] = ["import { generateMock, MockOptions } from './runtime.js';"];
+    const factories: string[] = [];
+
+    Object.entries(this.schemas).forEach(([name, schema]) => {
+      const schemaName = this.naming.schemaName(name);
+      const typeName = this.naming.typeName(schemaName);
+      // An empty type suffix makes the type share the schema's name
+      const importNames = typeName === schemaName ? schemaName : `${schemaName}, ${typeName}`;
+      imports.push(`import { ${importNames} } from '${this.naming.componentImport(name)}';`);
+      const ref = JSON.stringify({ $ref: `#/components/schemas/${name}` });
+
+      factories.push('/**');
+      factories.push(` * Deterministic mock of ${escapeComment(name)}, validated by its Zod schema`);
+      factories.push(' */');
+      if (this.acceptsOverrides(schema)) {
+        factories.push(`export function ${this.naming.mockName(name)}(overrides: Partial<${typeName}> = {}, options: MockOptions = {}): ${typeName} {`);
+        factories.push(`  return ${schemaName}.parse({ ...(generateMock(${ref}, options) as object), ...overrides });`);
+      } else {
+        factories.push(`export function ${this.naming.mockName(name)}(options: MockOptions = {}): ${typeName} {`);
+        factories.push(`  return ${schemaName}.parse(generateMock(${ref}, options));`);
+      }
+      factories.push('}');
+      factories.push('');
+    });
+
+    return [...imports, '', ...factories].join('\n');
+  }
+
+  // Object schemas get a factory that merges overrides into the mock
+  private acceptsOverrides(schema: Schema): boolean {
+    return getSchemaTypes(schema).includes('object') && !schema.oneOf && !schema.anyOf;
+  }
+
+  private generateMockTests(): string {
+    const imports: string[] = ["import { test } from 'node:test';", "import * as components from './components.js';"];
+    const calls: Array<{ title: string; call: string }> = [];
+
+    Object.entries(this.schemas).forEach(([name, schema]) => {
+      const mockName = this.naming.mockName(name);
+      const args = this.acceptsOverrides(schema) ? '{}, { seed }' : '{ seed }';
+      calls.push({ title: mockName, call: `components.${mockName}(${args})` });
+    });
+    this.operations.forEach(opSchema => {
+      const responses = this.getJsonResponses(opSchema);
+      if (responses.length === 0) return;
+      const namespace = this.naming.operationNamespace(opSchema.operationId);
+      imports.push(`import * as ${namespace} from '${this.naming.operationImport(opSchema.operationId, false, 'mocks')}';`);
+      responses.forEach(({ name }) => calls.push({ title: `${opSchema.operationId} mock${name}`, call: `${namespace}.mock${name}({ seed })` }));
+    });
+
+    // Every factory parses its result, so calling it with a few seeds checks the mocks against the schemas
+    const content: string[] = [...imports, '', 'const SEEDS = [1, 2, 3];', ''];
+    calls.forEach(({ title, call }) => {
+      content.push(`test(${JSON.stringify(`${title} parses`)}, () => {`);
+      content.push(`  SEEDS.forEach(seed => ${call});`);
+      content.push('});');
+      content.push('');
+    });
+
+    return content.join('\n');
+  }
+
+  private getJsonResponses(opSchema: OperationSchema): Array<{ statusCode: string; name: string; schema: Schema }> {
+    return Object.entries(opSchema.responses).flatMap(([statusCode, response]) => {
+      const names = getContentExportNames(Object.keys(response.content), this.naming.responseName(statusCode));
+      return Object.entries(response.content)
+        .filter(([mediaType, media]) => media.schema && isJsonMediaType(mediaType, this.jsonMediaTypes))
+        .map(([mediaType, media]) => ({ statusCode, name: names[mediaType], schema: media.schema! }));
+    });
+  }
+
+  private generateOperationMocks(opSchema: OperationSchema): string | null {
+    const responses = this.getJsonResponses(opSchema);
+    if (responses.length === 0) return null;
+
+    const content: string[] = [
+      `import { ${responses.map(({ name }) => name).join(', ')} } from './${this.naming.operationFile}.js';`,
+      "import { generateMock, MockOptions } from '../_mocks/runtime.js';",
+      ''
+    ];
+
+    responses.forEach(({ statusCode, name, schema }) => {
+      content.push('/**');
+      content.push(` * Deterministic mock of the ${statusCode} response body`);
+      content.push(' */');
+      content.push(`export function mock${name}(options: MockOptions = {}) {`);
+      content.push(`  return ${name}.parse(generateMock(${JSON.stringify(schema)}, options));`);
+      content.push('}');
+      content.push('');
+    });
+
+    return content.join('\n');
+  }
+
+  private generateHandlers(): string {
+    const imports: string[] = ["import { http, HttpResponse } from 'msw';"];
+    const handlers: string[] = [];
+
+    this.operations.forEach(opSchema => {
+      // Answer with the first successful response the spec declares
+      const success = Object.keys(opSchema.responses).filter(statusCode => /^2/.test(statusCode)).sort()[0];
+      if (!success) return;
+
+      const method = opSchema.method.toLowerCase();
+      const path = JSON.stringify(opSchema.path.replace(/\{([^}]+)\}/g, ':$1'));
+      const status = /^\d{3}$/.test(success) ? success : '200';
+      const mock = this.getJsonResponses(opSchema).find(response => response.statusCode === success);
+
+      if (mock) {
+        const namespace = this.naming.operationNamespace(opSchema.operationId);
+        imports.push(`import * as ${namespace} from '${this.naming.operationImport(opSchema.operationId, false, 'mocks')}';`);
+        handlers.push(`    http.${method}(\`\${baseUrl}\${${path}}\`, () => HttpResponse.json(${namespace}.mock${mock.name}(options), { status: ${status} }))`);
+      } else {
+        handlers.push(`    http.${method}(\`\${baseUrl}\${${path}}\`, () => new HttpResponse(null, { status: ${status} }))`);
+      }
+    });
+
+    return [
+      ...imports,
+      "import { MockOptions } from './runtime.js';",
+      '',
+      '/**',
+      ' * MSW request handlers answering every operation with its mocked success response',
+      ' */',
+      "export function createHandlers(baseUrl = '*', options: MockOptions = {}) {",
+      '  return [',
+      handlers.join(',\n'),
+      '  ];',
+      '}',
+      ''
+    ].join('\n');
+  }
+}
@@ -1,183 +1,659 @@
-import { OpenAPIDocument, Schema, GeneratedFile, OperationSchema } from '../types.js';
+import { OpenAPIDocument, Schema, GeneratedFile, OperationSchema, WebhookSchema, Operation, PathItem, Callback, RequestBody, Response, Header, Parameter, ParameterLocation, Reference, MediaType, Encoding, GeneratorOptions } from '../types.js';
 import { TypeConverter } from '../utils/typeConverter.js';
-import { generateDescription, isComponentSchema, findComponentReferences } from '../utils/helpers.js';
+import { getRefName, parseJsonPointer, resolveReference } from '../utils/jsonPointer.js';
+import { generateDescription, isComponentSchema, getSchemaTypes, escapeComment } from '../utils/helpers.js';
+import { PARAMETER_LOCATIONS, mergeParameters, getParameterStyle, getParameterExplode } from '../utils/parameters.js';
+import { DEFAULT_JSON_MEDIA_TYPES, isJsonMediaType, isFormMediaType, isTextMediaType, getMediaTypeSuffix, getContentExportNames } from '../utils/mediaTypes.js';
+import { Naming, WEBHOOKS_DIR } from '../utils/naming.js';
+import { listOperations, getPathItemOperations } from '../utils/operations.js';
+import { resolveOverrides } from '../utils/overrides.js';
+import { DiagnosticCollector } from '../utils/diagnostics.js';
+import { Profiler } from '../utils/profiler.js';
+import { findVisibilityVariants, isVisible } from '../utils/visibility.js';
+import { DEFAULT_COERCE } from '../utils/formats.js';
+import { SchemaEmitter } from '../emitters/emitter.js';
+import { createEmitter } from '../emitters/targets.js';
+import { PropertyNode, SchemaNode, raw, ref } from '../emitters/schemaNode.js';
+
+const PARAMETER_EXPORTS: Record<ParameterLocation, { name: string; description: string }> = {
+  path: { name: 'PathParams', description: 'Path parameters' },
+  query: { name: 'QueryParams', description: 'Query parameters' },
+  header: { name: 'Headers', description: 'Header parameters (names are lower-cased)' },
+  cookie: { name: 'Cookies', description: 'Cookie parameters' }
+};
 
 export class OperationGenerator {
+  private document: OpenAPIDocument;
   private schemas: Record<string, Schema>;
-  private paths: Record<string, any>;
+  private paths: Record<string, PathItem>;
+  private componentParameters: Record<string, Parameter | Reference>;
+  private jsonMediaTypes: string[];
   private typeConverter: TypeConverter;
+  private requestConverter: TypeConverter;
+  private parameterConverter: TypeConverter;
+  private formConverter: TypeConverter;
+  private naming: Naming;
+  private emitter: SchemaEmitter;
+  private profiler: Profiler;
+  private sharedComponents: boolean;
 
-  constructor(openApiDoc: OpenAPIDocument) {
+  constructor(
+    openApiDoc: OpenAPIDocument,
+    options: GeneratorOptions = {},
+    profiler = new Profiler(),
+    diagnostics = new DiagnosticCollector(openApiDoc)
+  ) {
+    this.document = openApiDoc;
+    this.profiler = profiler;
     this.schemas = openApiDoc.components?.schemas || {};
     this.paths = openApiDoc.paths || {};
-    this.typeConverter = new TypeConverter(this.schemas);
+    this.componentParameters = openApiDoc.components?.parameters || {};
+    this.jsonMediaTypes = options.jsonMediaTypes || DEFAULT_JSON_MEDIA_TYPES;
+    this.sharedComponents = !!options.sharedComponents;
+    this.naming = new Naming(
+      options,
+      Object.keys(this.schemas),
+      this.collectOperations().map(opSchema => opSchema.operationId),
+      this.collectWebhooks().map(webhook => webhook.name),
+      this.collectSharedComponents()
+    );
+    this.emitter = createEmitter(options.target);
+    const converterOptions = {
+      emitter: this.emitter,
+      naming: this.naming,
+      overrides: resolveOverrides(openApiDoc, options.overrides, diagnostics),
+      plugins: options.plugins || [],
+      formats: options.formats || {},
+      diagnostics,
+      variants: findVisibilityVariants(this.schemas)
+    };
+    const coerce = options.coerce || DEFAULT_COERCE;
+    // Responses leave out writeOnly properties, requests and parameters readOnly ones
+    this.typeConverter = new TypeConverter(this.schemas, openApiDoc.openapi, { ...converterOptions, visibility: 'output' });
+    this.requestConverter = new TypeConverter(this.schemas, openApiDoc.openapi, { ...converterOptions, visibility: 'input' });
+    // Parameter values arrive as text, so primitives are coerced unless coercion is turned off
+    this.parameterConverter = new TypeConverter(this.schemas, openApiDoc.openapi, { ...converterOptions, visibility: 'input', coercePrimitives: coerce !== 'none' });
+    // Form bodies are text as well, but only coerced on request
+    this.formConverter = coerce === 'forms' ? this.parameterConverter : this.requestConverter;
   }
 
-  generateOperationSchemas(): GeneratedFile[] {
-    const files: GeneratedFile[] = [];
-    const operationSchemas = new Map<string, OperationSchema>();
+  collectOperations(): OperationSchema[] {
+    return listOperations(this.paths).map(({ path, method, pathItem, operation, operationId }) => {
+      const opSchema = this.createOperationSchema(operationId, method, path, pathItem, operation);
+      this.collectBodies(opSchema, operation);
+      return opSchema;
+    });
+  }
 
-    // Process all paths and operations
-    Object.entries(this.paths).forEach(([pathName, pathItem]) => {
-      Object.entries(pathItem).forEach(([method, operation]) => {
-        if (!operation || typeof operation !== 'object' || !('operationId' in operation) || !operation.operationId) return;
-        
-        const operationId = operation.operationId as string;
-        const dirName = operationId;
-        
-        if (!operationSchemas.has(dirName)) {
-          operationSchemas.set(dirName, {
-            operationId,
-            summary: (operation as any).summary || generateDescription(operationId),
-            method: method.toUpperCase(),
-            path: pathName,
-            request: null,
-            responses: {}
-          });
-        }
-        
-        const opSchema = operationSchemas.get(dirName)!;
-        
-        // Process request body
-        const requestBody = (operation as any).requestBody;
-        if (requestBody?.content?.['application/json']?.schema) {
-          const requestSchema = requestBody.content['application/json'].schema;
-          opSchema.request = requestSchema;
-        }
-        
-        // Process responses
-        const responses = (operation as any).responses;
-        if (responses) {
-          Object.entries(responses).forEach(([statusCode, response]) => {
-            const resp = response as any;
-            if (resp.content?.['application/json']?.schema) {
-              opSchema.responses[statusCode] = {
-                description: resp.description || `Response ${statusCode}`,
-                schema: resp.content['application/json'].schema
-              };
-            }
-          });
+  // Webhooks and the callbacks of operations, which share the `_webhooks` directory
+  collectWebhooks(): WebhookSchema[] {
+    const webhooks: WebhookSchema[] = [];
+    const names = new Set<string>();
+    const add = (kind: WebhookSchema['kind'], event: string, baseName: string, path: string, pathItem: PathItem, parentOperationId?: string) => {
+      const operations = getPathItemOperations(pathItem);
+      operations.forEach(([method, operation]) => {
+        // Path items answering several methods get one module per method
+        const base = operations.length > 1 ? `${baseName}.${method}` : baseName;
+        let name = base;
+        for (let index = 2; names.has(name); index++) {
+          name = `${base}${index}`;
         }
+        names.add(name);
+
+        const opSchema = this.createOperationSchema(parentOperationId ?? operation.operationId ?? event, method, path, pathItem, operation);
+        this.collectBodies(opSchema, operation);
+        webhooks.push({ ...opSchema, summary: operation.summary || generateDescription(event), kind, event, name });
       });
+    };
+
+    Object.entries(this.document.webhooks || {}).forEach(([event, entry]) => {
+      // Webhooks and callbacks may point at shared definitions under `components`
+      const pathItem = resolveReference<PathItem>(this.document, entry);
+      if (pathItem) add('webhook', event, event, event, pathItem);
     });
 
-    // Generate files for each operation
-    operationSchemas.forEach((opSchema, dirName) => {
-      const imports = new Set<string>();
-      imports.add("import { z } from 'zod';");
-      
-      const content: string[] = [];
-      
-      // Find component references
-      const componentRefs = new Set<string>();
-      
-      // Check request for component references
-      if (opSchema.request && isComponentSchema(opSchema.request)) {
-        const refName = opSchema.request.$ref!.split('/').pop()!;
-        componentRefs.add(refName);
-      }
-      
-      // Check responses for component references
+    // Callbacks are named after the operation that registers them
+    listOperations(this.paths).forEach(({ operation, operationId }) => {
+      Object.entries(operation.callbacks || {}).forEach(([event, entry]) => {
+        const callback = resolveReference<Callback>(this.document, entry);
+        Object.entries(callback || {}).forEach(([expression, pathItem]) => {
+          add('callback', event, `${operationId}.${event}`, expression, pathItem, operationId);
+        });
+      });
+    });
+
+    return webhooks;
+  }
+
+  // Shared responses and request bodies that operations use, keyed by section, e.g. `responses/NotFound`
+  private collectSharedComponents(): string[] {
+    if (!this.sharedComponents) return [];
+    const keys = new Set<string>();
+    this.collectOperations().forEach(opSchema => {
+      if (opSchema.requestRef && Object.keys(opSchema.request).length > 0) keys.add(`requestBodies/${opSchema.requestRef}`);
       Object.values(opSchema.responses).forEach(response => {
-        findComponentReferences(response.schema, componentRefs);
+        if (response.ref && Object.keys(response.content).length > 0) keys.add(`responses/${response.ref}`);
       });
+    });
+    return Array.from(keys);
+  }
+
+  private createOperationSchema(operationId: string, method: string, path: string, pathItem: PathItem, operation: Operation): OperationSchema {
+    return {
+      operationId,
+      summary: operation.summary || generateDescription(operationId),
+      method: method.toUpperCase(),
+      path,
+      tags: operation.tags || [],
+      parameters: mergeParameters(pathItem.parameters, operation.parameters, this.componentParameters),
+      request: {},
+      responses: {}
+    };
+  }
+
+  private collectBodies(opSchema: OperationSchema, operation: Operation): void {
+    // Process request body
+    const requestBody = resolveReference<RequestBody>(this.document, operation.requestBody);
+    if (requestBody?.content) {
+      opSchema.request = this.collectContent(requestBody.content);
+      opSchema.requestRequired = !!requestBody.required;
+      const requestRef = this.getSharedName(operation.requestBody, 'requestBodies');
+      if (requestRef) opSchema.requestRef = requestRef;
+    }
+    
+    // Process responses
+    Object.entries(operation.responses || {}).forEach(([statusCode, entry]) => {
+      const response = resolveReference<Response>(this.document, entry);
+      const ref = this.getSharedName(entry, 'responses');
+      // Responses without content are kept so their status codes stay known
+      opSchema.responses[statusCode] = {
+        description: response?.description || `Response ${statusCode}`,
+        content: this.collectContent(response?.content || {}),
+        headers: this.collectHeaders(response?.headers || {}),
+        ...(ref ? { ref } : {})
+      };
+    });
+  }
+
+  private collectHeaders(headers: Record<string, Header | Reference>): Parameter[] {
+    // `Content-Type` is described by the media types instead
+    return Object.entries(headers)
+      .filter(([name]) => name.toLowerCase() !== 'content-type')
+      .flatMap(([name, entry]) => {
+        const header = resolveReference<Header>(this.document, entry);
+        return header ? [{ ...header, name, in: 'header' as const }] : [];
+      });
+  }
+
+  private getSharedName(entry: object | undefined, section: 'responses' | 'requestBodies'): string | undefined {
+    // Aliases such as `Error: { $ref: '#/components/responses/NotFound' }` share the module of their target
+    let name: string | undefined;
+    const seen = new Set<object>();
+    for (let current = entry; current && '$ref' in current && typeof current.$ref === 'string' && !seen.has(current);) {
+      seen.add(current);
+      const segments = parseJsonPointer(current.$ref);
+      if (segments.length !== 3 || segments[0] !== 'components' || segments[1] !== section) break;
+      name = segments[2];
+      current = this.document.components?.[section]?.[name];
+    }
+    return name;
+  }
+
+  generateOperationSchemas(): GeneratedFile[] {
+    // Generate files for each operation
+    return this.collectOperations().map(opSchema => this.profiler.module(() => ({
+      dirName: this.naming.operationDir(opSchema.operationId),
+      fileName: `${this.naming.operationFile}.ts`,
+      content: this.renderOperation(opSchema, [
+        `@operationId ${opSchema.operationId}`,
+        `@method ${opSchema.method}`,
+        `@path ${opSchema.path}`
+      ])
+    })));
+  }
+
+  generateOperationManifest(): GeneratedFile {
+    const entries = this.collectOperations().map(opSchema => {
+      const fields = [
+        `operationId: ${JSON.stringify(opSchema.operationId)}`,
+        `method: '${opSchema.method}'`,
+        `path: ${JSON.stringify(opSchema.path)}`,
+        `tags: [${opSchema.tags.map(tag => JSON.stringify(tag)).join(', ')}]`,
+        `dir: ${JSON.stringify(this.naming.operationDir(opSchema.operationId))}`
+      ];
+      return `  { ${fields.join(', ')} }`;
+    });
+
+    const content = [
+      '/**',
+      ' * Every operation of the API, with the directory holding its schema modules',
+      ' */',
+      `export const operations = [${entries.length > 0 ? `\n${entries.join(',\n')}\n` : ''}] as const;`,
+      '',
+      "export type OperationId = (typeof operations)[number]['operationId'];",
+      ''
+    ];
+
+    return {
+      fileName: 'operations.ts',
+      content: content.join('\n')
+    };
+  }
+
+  generateWebhookSchemas(): GeneratedFile[] {
+    return this.collectWebhooks().map(webhook => this.profiler.module(() => ({
+      dirName: WEBHOOKS_DIR,
+      fileName: `${this.naming.webhookFile(webhook.name)}.ts`,
+      content: this.renderOperation(webhook, webhook.kind === 'webhook'
+        ? [`@webhook ${webhook.event}`, `@method ${webhook.method}`]
+        : [`@callback ${webhook.event}`, `@operationId ${webhook.operationId}`, `@method ${webhook.method}`, `@path ${webhook.path}`], true)
+    })));
+  }
+
+  generateSharedComponents(): GeneratedFile[] {
+    return this.collectSharedComponents().map(key => this.profiler.module(() => {
+      const [section, name] = key.split('/') as ['responses' | 'requestBodies', string];
+      const isResponse = section === 'responses';
+      const entry = resolveReference<Response | RequestBody>(this.document, this.document.components?.[section]?.[name]);
+      const content = this.collectContent(entry?.content || {});
+      const schemas = this.convertContent(content, this.naming.sharedName(key), isResponse);
       
-      // Add imports for component schemas
-      componentRefs.forEach(schemaName => {
-        if (this.schemas[schemaName]) {
-          imports.add(`import { ${schemaName} } from '../_components/${schemaName}.js';`);
-        }
+      const lines: string[] = [
+        this.emitter.importStatement,
+        ...this.collectImports(true),
+        ''
+      ];
+      const description = entry?.description || `Shared ${isResponse ? 'response' : 'request body'} ${name}`;
+      schemas.forEach(({ name: exportName, mediaType, suffix, zod }) => {
+        lines.push('/**');
+        lines.push(` * ${escapeComment(description)}${suffix ? ` (${mediaType})` : ''}`);
+        lines.push(' */');
+        lines.push(`export const ${exportName} = ${zod};`);
+        lines.push(`export type ${this.naming.typeName(exportName)} = ${this.emitter.inferType(exportName)};`);
+        lines.push('');
       });
       
-      content.push(...Array.from(imports));
+      return {
+        dirName: this.naming.componentsDir,
+        fileName: `${this.naming.sharedFile(key)}.ts`,
+        content: lines.join('\n')
+      };
+    }));
+  }
+
+  // Webhook and callback requests are sent by the API and answered by the consumer, which swaps the visibility of their bodies
+  private renderOperation(opSchema: OperationSchema, tags: string[], sentByApi = false): string {
+    const imports = new Set<string>();
+    imports.add(this.emitter.importStatement);
+    
+    const content: string[] = [];
+    
+    // Shared responses and request bodies are imported from their own modules
+    const sharedImports = new Map<string, string[]>();
+    const isShared = (ref: string | undefined, content: Record<string, MediaType>): ref is string =>
+      !!ref && this.sharedComponents && !sentByApi && Object.keys(content).length > 0;
+    
+    // Convert request and response bodies per media type
+    const requestSchemas = isShared(opSchema.requestRef, opSchema.request)
+      ? this.referenceContent(opSchema.request, 'Request', `requestBodies/${opSchema.requestRef}`, sharedImports)
+      : this.convertContent(opSchema.request, 'Request', sentByApi);
+    const responseSchemas = Object.entries(opSchema.responses).map(([statusCode, response]) => {
+      const name = this.naming.responseName(statusCode);
+      return {
+        statusCode,
+        description: response.description,
+        schemas: isShared(response.ref, response.content)
+          ? this.referenceContent(response.content, name, `responses/${response.ref}`, sharedImports)
+          : this.convertContent(response.content, name, !sentByApi)
+      };
+    });
+    
+    // Convert parameters up front so their component references are imported
+    const parameterSchemas = PARAMETER_LOCATIONS
+      .map(location => ({ location, zod: this.convertParameters(opSchema.parameters, location) }))
+      .filter((entry): entry is { location: ParameterLocation; zod: string } => entry.zod !== null);
+    
+    // Response headers arrive as text too, so they are converted like header parameters
+    const headerSchemas = Object.entries(opSchema.responses)
+      .map(([statusCode, response]) => ({
+        statusCode,
+        name: `${this.naming.responseName(statusCode)}Headers`,
+        zod: this.convertParameters(response.headers, 'header')
+      }))
+      .filter((entry): entry is { statusCode: string; name: string; zod: string } => entry.zod !== null);
+    
+    this.collectImports().forEach(statement => imports.add(statement));
+    sharedImports.forEach((names, key) => {
+      imports.add(`import { ${names.join(', ')} } from '${this.naming.sharedImport(key)}';`);
+    });
+    
+    content.push(...Array.from(imports));
+    content.push('');
+    
+    // Add operation documentation
+    content.push('/**');
+    content.push(` * ${escapeComment(opSchema.summary)}`);
+    content.push(` * `);
+    tags.forEach(tag => content.push(` * ${escapeComment(tag)}`));
+    content.push(' */');
+    content.push('');
+    
+    // Generate parameter schemas
+    parameterSchemas.forEach(({ location, zod }) => {
+      const { name, description } = PARAMETER_EXPORTS[location];
+      content.push('/**');
+      content.push(` * ${description}`);
+      content.push(' */');
+      content.push(`export const ${name} = ${zod};`);
+      content.push(`export type ${this.naming.typeName(name)} = ${this.emitter.inferType(name)};`);
       content.push('');
-      
-      // Add operation documentation
+    });
+    
+    // Generate request schemas
+    requestSchemas.forEach(({ name, mediaType, suffix, zod }) => {
       content.push('/**');
-      content.push(` * ${opSchema.summary}`);
-      content.push(` * `);
-      content.push(` * @operationId ${opSchema.operationId}`);
-      content.push(` * @method ${opSchema.method}`);
-      content.push(` * @path ${opSchema.path}`);
+      content.push(` * Request schema${suffix ? ` (${mediaType})` : ''}`);
       content.push(' */');
+      content.push(`export const ${name} = ${zod};`);
+      content.push(`export type ${this.naming.typeName(name)} = ${this.emitter.inferType(name)};`);
       content.push('');
-      
-      // Generate request schema
-      if (opSchema.request) {
+    });
+    
+    // Generate response schemas
+    responseSchemas.forEach(({ statusCode, description, schemas }) => {
+      schemas.forEach(({ name, mediaType, suffix, zod }) => {
         content.push('/**');
-        content.push(' * Request schema');
+        content.push(` * Response ${statusCode}: ${escapeComment(description)}${suffix ? ` (${mediaType})` : ''}`);
         content.push(' */');
-        
-        if (isComponentSchema(opSchema.request)) {
-          // Use component reference
-          const refName = opSchema.request.$ref!.split('/').pop()!;
-          content.push(`export const Request = ${refName};`);
-        } else {
-          // Inline schema
-          const requestZod = this.typeConverter.convertType(opSchema.request, [], 'Request', true);
-          content.push(`export const Request = ${requestZod};`);
-        }
-        content.push(`export type RequestType = z.infer<typeof Request>;`);
+        content.push(`export const ${name} = ${zod};`);
+        content.push(`export type ${this.naming.typeName(name)} = ${this.emitter.inferType(name)};`);
         content.push('');
+      });
+    });
+    
+    // Generate response header schemas
+    headerSchemas.forEach(({ statusCode, name, zod }) => {
+      content.push('/**');
+      content.push(` * Response ${statusCode} headers (names are lower-cased)`);
+      content.push(' */');
+      content.push(`export const ${name} = ${zod};`);
+      content.push(`export type ${this.naming.typeName(name)} = ${this.emitter.inferType(name)};`);
+      content.push('');
+    });
+    
+    content.push(...this.generateResponseMap(responseSchemas));
+    
+    return content.join('\n');
+  }
+
+  private generateResponseMap(responseSchemas: Array<{ statusCode: string; schemas: Array<{ name: string }> }>): string[] {
+    if (responseSchemas.length === 0) return [];
+    const content: string[] = [];
+    
+    // Several media types of one status are accepted alike; statuses without content have no body
+    const entries = responseSchemas.map(({ statusCode, schemas }) => {
+      const names = schemas.map(({ name }) => ref(name));
+      const node: SchemaNode = names.length === 0 ? { kind: 'undefined' } : names.length === 1 ? names[0] : { kind: 'union', options: names };
+      return `  ${JSON.stringify(statusCode)}: ${this.emitter.emit(node)}`;
+    });
+    content.push('/**');
+    content.push(' * Response schemas keyed by status code, range (e.g. `4XX`) or `default`');
+    content.push(' */');
+    content.push(`export const Responses = {\n${entries.join(',\n')}\n};`);
+    content.push('');
+    
+    const union = (statusCodes: string[]) => {
+      const members = statusCodes.map(statusCode => ref(`Responses[${JSON.stringify(statusCode)}]`));
+      if (members.length === 0) return this.emitter.emit({ kind: 'never' });
+      return this.emitter.emit(members.length === 1 ? members[0] : { kind: 'union', options: members });
+    };
+    const statusCodes = responseSchemas.map(({ statusCode }) => statusCode);
+    [
+      { name: 'SuccessResponse', description: 'Any 2xx response', statusCodes: statusCodes.filter(statusCode => statusCode.startsWith('2')) },
+      { name: 'ErrorResponse', description: 'Any response other than 2xx, including `default`', statusCodes: statusCodes.filter(statusCode => !statusCode.startsWith('2')) }
+    ].forEach(({ name, description, statusCodes }) => {
+      content.push('/**');
+      content.push(` * ${description}`);
+      content.push(' */');
+      content.push(`export const ${name} = ${union(statusCodes)};`);
+      content.push(`export type ${this.naming.typeName(name)} = ${this.emitter.inferType(name)};`);
+      content.push('');
+    });
+    
+    content.push('/**');
+    content.push(' * Schema of the response with the given status: the exact code, then its range (e.g. `4XX`), then `default`');
+    content.push(' */');
+    content.push('export function selectResponse(status: number): (typeof Responses)[keyof typeof Responses] | undefined {');
+    content.push('  const responses: Partial<Record<string, (typeof Responses)[keyof typeof Responses]>> = Responses;');
+    content.push('  const range = `${Math.floor(status / 100)}XX`;');
+    content.push('  return responses[String(status)] ?? responses[range] ?? responses[range.toLowerCase()] ?? responses.default;');
+    content.push('}');
+    content.push('');
+    
+    return content;
+  }
+
+  // Imports for everything converted since the last call; requests and parameters use the input variants
+  private collectImports(fromComponents = false): string[] {
+    const componentNames = new Map<string, Set<string>>();
+    const addRefs = (converter: TypeConverter) => converter.takeReferences().forEach(schemaName => {
+      if (this.schemas[schemaName]) {
+        componentNames.set(schemaName, (componentNames.get(schemaName) || new Set()).add(converter.schemaRef(schemaName)));
       }
-      
-      // Generate response schemas
-      Object.entries(opSchema.responses).forEach(([statusCode, response]) => {
-        content.push('/**');
-        content.push(` * Response ${statusCode}: ${response.description}`);
-        content.push(' */');
+    });
+    addRefs(this.typeConverter);
+    addRefs(this.requestConverter);
+    addRefs(this.parameterConverter);
+    
+    return [
+      ...Array.from(componentNames).map(([schemaName, identifiers]) =>
+        `import { ${Array.from(identifiers).join(', ')} } from '${this.naming.componentImport(schemaName, fromComponents)}';`),
+      // Imports requested by plugins and `x-zod-import`
+      ...this.typeConverter.takeImports(),
+      ...this.requestConverter.takeImports(),
+      ...this.parameterConverter.takeImports()
+    ];
+  }
+
+  private referenceContent(
+    content: Record<string, MediaType>,
+    baseName: string,
+    key: string,
+    sharedImports: Map<string, string[]>
+  ): Array<{ name: string; mediaType: string; suffix: string; zod: string }> {
+    const names = getContentExportNames(Object.keys(content), baseName);
+    const sharedNames = getContentExportNames(Object.keys(content), this.naming.sharedName(key));
+    sharedImports.set(key, Array.from(new Set([...(sharedImports.get(key) || []), ...Object.values(sharedNames)])));
+    
+    return Object.keys(content).map(mediaType => ({
+      name: names[mediaType],
+      mediaType,
+      suffix: getMediaTypeSuffix(mediaType),
+      zod: sharedNames[mediaType]
+    }));
+  }
+
+  private collectContent(content: Record<string, MediaType>): Record<string, MediaType> {
+    // JSON media types without a schema carry nothing to validate
+    return Object.fromEntries(
+      Object.entries(content).filter(([mediaType, media]) => media?.schema || !isJsonMediaType(mediaType, this.jsonMediaTypes))
+    );
+  }
+
+  private convertContent(
+    content: Record<string, MediaType>,
+    baseName: string,
+    isOutput: boolean
+  ): Array<{ name: string; mediaType: string; suffix: string; zod: string }> {
+    const names = getContentExportNames(Object.keys(content), baseName);
+    
+    return Object.entries(content).map(([mediaType, media]) => ({
+      name: names[mediaType],
+      mediaType,
+      suffix: getMediaTypeSuffix(mediaType),
+      zod: this.emitter.emit(this.convertMediaType(mediaType, media, isOutput))
+    }));
+  }
+
+  private convertMediaType(mediaType: string, media: MediaType, isOutput: boolean): SchemaNode {
+    const schema = media.schema;
+    const isJson = isJsonMediaType(mediaType, this.jsonMediaTypes);
+    
+    const override = this.typeConverter.getOverride(schema);
+    if (override !== undefined) return raw(override);
+    
+    if (!schema) {
+      if (isJson) return { kind: 'unknown' };
+      return isTextMediaType(mediaType) ? { kind: 'string' } : this.typeConverter.binary();
+    }
+    
+    if (isFormMediaType(mediaType) && media.encoding) {
+      return this.convertEncodedForm(schema, media.encoding);
+    }
+    
+    // Raw binary payloads are described as plain strings
+    if (!isJson && !isFormMediaType(mediaType) && !isTextMediaType(mediaType) && getSchemaTypes(schema).includes('string')) {
+      return this.typeConverter.binary();
+    }
+    
+    // Referenced components are imported rather than converted again
+    if (isOutput) return this.typeConverter.convertNode(schema);
+    return (isFormMediaType(mediaType) ? this.formConverter : this.requestConverter).convertNode(schema, [], 'Request');
+  }
+
+  private convertEncodedForm(schema: Schema, encoding: Record<string, Encoding>): SchemaNode {
+    const resolved = this.resolveSchema(schema);
+    const converter = this.formConverter;
+    if (!resolved?.properties) return converter.convertNode(schema, [], 'Request');
+    
+    const properties: PropertyNode[] = Object.entries(resolved.properties)
+      .filter(([, value]) => isVisible(value, 'input'))
+      .map(([key, value]) => {
+        const isRequired = !!resolved.required?.includes(key);
+        const contentType = encoding[key]?.contentType;
+        let node = converter.convertNode(value);
         
-        // Check if response contains only component references
-        const responseZod = this.convertResponseSchema(response.schema, componentRefs);
-        content.push(`export const Response${statusCode} = ${responseZod};`);
-        content.push(`export type Response${statusCode}Type = z.infer<typeof Response${statusCode}>;`);
-        content.push('');
+        // Parts with their own content type are decoded (JSON) or kept as files
+        if (contentType && isJsonMediaType(contentType, this.jsonMediaTypes)) {
+          node = this.wrapJsonString(node);
+        } else if (contentType && !isTextMediaType(contentType) && !getSchemaTypes(value).includes('array')) {
+          node = converter.binary();
+        }
+        
+        const optional = converter.optional(node, value, isRequired);
+        return { key, node: converter.applyPropertyHooks(optional, key, resolved, isRequired) };
       });
-      
-      // Generate index file for the operation
-      files.push({
-        dirName,
-        fileName: 'schema.ts',
-        content: content.join('\n')
+    
+    return { kind: 'object', properties, unknownKeys: 'strip' };
+  }
+
+  private convertParameters(parameters: Parameter[], location: ParameterLocation): string | null {
+    const properties: PropertyNode[] = [];
+    
+    parameters
+      .filter(parameter => parameter.in === location)
+      .forEach(parameter => {
+        const schema = this.getParameterSchema(parameter);
+        const resolved = this.resolveSchema(schema);
+        const style = getParameterStyle(parameter);
+        const explode = getParameterExplode(parameter);
+        
+        // Exploded form objects are serialized as one query/cookie entry per property
+        if (!parameter.content && style === 'form' && explode && resolved && getSchemaTypes(resolved).includes('object') && resolved.properties) {
+          Object.entries(resolved.properties).forEach(([key, value]) => {
+            const isRequired = !!parameter.required && !!resolved.required?.includes(key);
+            const node = this.wrapExplodedArray(value, this.parameterConverter.convertNode(value));
+            properties.push({ key, node: this.parameterConverter.optional(node, value, isRequired) });
+          });
+          return;
+        }
+        
+        const name = location === 'header' ? parameter.name.toLowerCase() : parameter.name;
+        const isRequired = location === 'path' || parameter.required;
+        const node = this.wrapSerializedParameter(parameter, resolved, this.parameterConverter.convertNode(schema));
+        properties.push({ key: name, node: this.parameterConverter.optional(node, schema, !!isRequired) });
       });
-    });
     
-    return files;
+    // An empty object is still exported when the location has parameters
+    if (!parameters.some(parameter => parameter.in === location)) return null;
+    return this.emitter.emit({ kind: 'object', properties, unknownKeys: 'strip' });
+  }
+
+  private getParameterSchema(parameter: Parameter): Schema | undefined {
+    if (parameter.schema) return parameter.schema;
+    // Parameters using `content` carry exactly one media type
+    const mediaType = parameter.content ? Object.values(parameter.content)[0] : undefined;
+    return mediaType?.schema;
+  }
+
+  private resolveSchema(schema: Schema | undefined): Schema | undefined {
+    if (schema && isComponentSchema(schema)) {
+      return this.schemas[getRefName(schema.$ref!)];
+    }
+    return schema;
   }
 
-  private convertResponseSchema(schema: Schema, componentRefs: Set<string>): string {
-    if (!schema) return 'z.unknown()';
+  private wrapExplodedArray(schema: Schema | undefined, node: SchemaNode): SchemaNode {
+    // Repeated keys arrive as an array, a single occurrence as a plain string
+    const resolved = this.resolveSchema(schema);
+    if (!resolved || !getSchemaTypes(resolved).includes('array')) return node;
+    return { kind: 'preprocess', fn: '(value) => (value === undefined || Array.isArray(value) ? value : [value])', inner: node };
+  }
+
+  private wrapSerializedParameter(parameter: Parameter, schema: Schema | undefined, node: SchemaNode): SchemaNode {
+    if (parameter.content) {
+      const isJson = Object.keys(parameter.content).some(mediaType => mediaType.includes('json'));
+      if (!isJson) return node;
+      return this.wrapJsonString(node);
+    }
     
-    // If it's a direct component reference
-    if (isComponentSchema(schema)) {
-      const refName = schema.$ref!.split('/').pop()!;
-      return refName;
+    const style = getParameterStyle(parameter);
+    const explode = getParameterExplode(parameter);
+    const isQuery = parameter.in === 'query' || parameter.in === 'cookie';
+    
+    const types = schema ? getSchemaTypes(schema) : [];
+    if (types.includes('array')) {
+      if (isQuery && explode) return this.wrapExplodedArray(schema, node);
+      const { prefix, delimiter } = this.getArraySerialization(parameter.name, style, explode);
+      const fn = `(value) => (typeof value === 'string' ? ${this.stripPrefix('value', prefix)}.split(${JSON.stringify(delimiter)}) : value)`;
+      return { kind: 'preprocess', fn, inner: node };
     }
     
-    // If it's an object with properties that might contain component references
-    if (schema.type === 'object' && schema.properties) {
-      const props = Object.entries(schema.properties)
-        .map(([key, value]) => {
-          const isRequired = schema.required && schema.required.includes(key);
-          let zodType: string;
-          
-          if (isComponentSchema(value)) {
-            const refName = value.$ref!.split('/').pop()!;
-            componentRefs.add(refName);
-            zodType = refName;
-          } else {
-            zodType = this.typeConverter.convertType(value, [], '', true);
-          }
-          
-          const optionalModifier = isRequired ? '' : '.optional()';
-          return `  ${key}: ${zodType}${optionalModifier}`;
-        })
-        .join(',\n');
-      
-      return `z.object({\n${props}\n})`;
+    if (types.includes('object') && style !== 'deepObject') {
+      const { prefix, delimiter } = this.getArraySerialization(parameter.name, style, explode);
+      const parts = `${this.stripPrefix('value', prefix)}.split(${JSON.stringify(delimiter)})`;
+      const entries = explode
+        ? `${parts}.map((pair) => pair.split('='))`
+        : `${parts}.flatMap((part, index, all) => (index % 2 === 0 ? [[part, all[index + 1]]] : []))`;
+      return { kind: 'preprocess', fn: `(value) => (typeof value === 'string' ? Object.fromEntries(${entries}) : value)`, inner: node };
     }
     
-    // Otherwise, convert inline
-    return this.typeConverter.convertType(schema, [], '', true);
+    return node;
+  }
+
+  private getArraySerialization(name: string, style: string, explode: boolean): { prefix: string; delimiter: string } {
+    switch (style) {
+      case 'label':
+        return { prefix: '.', delimiter: explode ? '.' : ',' };
+      case 'matrix':
+        return { prefix: `;${name}=`, delimiter: explode ? `;${name}=` : ',' };
+      case 'spaceDelimited':
+        return { prefix: '', delimiter: ' ' };
+      case 'pipeDelimited':
+        return { prefix: '', delimiter: '|' };
+      default:
+        return { prefix: '', delimiter: ',' };
+    }
+  }
+
+  private stripPrefix(variable: string, prefix: string): string {
+    if (!prefix) return variable;
+    const literal = JSON.stringify(prefix);
+    return `(${variable}.startsWith(${literal}) ? ${variable}.slice(${prefix.length}) : ${variable})`;
+  }
+
+  private wrapJsonString(node: SchemaNode): SchemaNode {
+    const fn = "(value) => { if (typeof value !== 'string') return value; try { return JSON.parse(value); } catch { return value; } }";
+    return { kind: 'preprocess', fn, inner: node };
   }
-}
\ No newline at end of file
+}
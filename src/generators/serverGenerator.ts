@@ -0,0 +1,431 @@
+import { OperationSchema, GeneratedFile, GeneratorOptions, ParameterLocation } from '../types.js';
+import { getContentExportNames } from '../utils/mediaTypes.js';
+import { Naming } from '../utils/naming.js';
+
+const PARAMETER_FIELDS: Record<ParameterLocation, { key: string; exportName: string }> = {
+  path: { key: 'params', exportName: 'PathParams' },
+  query: { key: 'query', exportName: 'QueryParams' },
+  header: { key: 'headers', exportName: 'Headers' },
+  cookie: { key: 'cookies', exportName: 'Cookies' }
+};
+
+// Framework-independent validation shared by every adapter
+const ROUTES_RUNTIME = `export interface RouteDefinition {
+  operationId: string;
+  method: string;
+  /** OpenAPI path template, e.g. \`/users/{id}\` */
+  path: string;
+  /** Path with \`:param\` placeholders as used by Express, Fastify and Hono */
+  routePath: string;
+  params?: z.ZodTypeAny;
+  query?: z.ZodTypeAny;
+  headers?: z.ZodTypeAny;
+  cookies?: z.ZodTypeAny;
+  body?: Record<string, z.ZodTypeAny>;
+  /** Whether a request without a body is rejected (\`requestBody.required\`) */
+  bodyRequired?: boolean;
+  responses: Record<string, Record<string, z.ZodTypeAny>>;
+}
+
+export interface RequestInput {
+  params?: unknown;
+  query?: unknown;
+  headers?: unknown;
+  cookies?: unknown;
+  body?: unknown;
+  contentType?: string;
+}
+
+export interface ValidatedRequest {
+  params: any;
+  query: any;
+  headers: any;
+  cookies: any;
+  body: any;
+}
+
+export interface ValidationIssue {
+  location: 'params' | 'query' | 'headers' | 'cookies' | 'body' | 'response';
+  path: Array<string | number>;
+  message: string;
+  code: string;
+}
+
+export interface ValidationError {
+  message: string;
+  issues: ValidationIssue[];
+}
+
+export type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: ValidationError };
+
+function normalizeMediaType(mediaType: string | undefined): string {
+  return (mediaType || '').split(';')[0].trim().toLowerCase();
+}
+
+function selectSchema(schemas: Record<string, z.ZodTypeAny>, contentType: string | undefined): z.ZodTypeAny | undefined {
+  const entries = Object.entries(schemas);
+  const normalized = normalizeMediaType(contentType);
+  return (entries.find(([mediaType]) => mediaType === normalized) ?? entries[0])?.[1];
+}
+
+function toIssues(location: ValidationIssue['location'], error: z.ZodError): ValidationIssue[] {
+  // Zod 4 paths may contain symbols, which JSON responses cannot carry
+  return error.issues.map(issue => ({
+    location,
+    path: issue.path.map(segment => typeof segment === 'symbol' ? String(segment) : segment),
+    message: issue.message,
+    code: issue.code
+  }));
+}
+
+export function validateRequest(route: RouteDefinition, input: RequestInput): ValidationResult<ValidatedRequest> {
+  const data: ValidatedRequest = {
+    params: input.params,
+    query: input.query,
+    headers: input.headers,
+    cookies: input.cookies,
+    body: input.body
+  };
+  const issues: ValidationIssue[] = [];
+
+  (['params', 'query', 'headers', 'cookies'] as const).forEach(location => {
+    const schema = route[location];
+    if (!schema) return;
+    const result = schema.safeParse(input[location] ?? {});
+    if (result.success) data[location] = result.data;
+    else issues.push(...toIssues(location, result.error));
+  });
+
+  // A missing body is only checked when the spec requires one
+  if (route.body && (input.body !== undefined || route.bodyRequired)) {
+    const schema = selectSchema(route.body, input.contentType);
+    const result = schema!.safeParse(input.body);
+    if (result.success) data.body = result.data;
+    else issues.push(...toIssues('body', result.error));
+  }
+
+  if (issues.length > 0) {
+    return { success: false, error: { message: 'Request validation failed', issues } };
+  }
+  return { success: true, data };
+}
+
+export function validateResponse(
+  route: RouteDefinition,
+  status: number,
+  body: unknown,
+  contentType?: string
+): ValidationResult<unknown> {
+  const range = \`\${Math.floor(status / 100)}XX\`;
+  const schemas = route.responses[String(status)]
+    ?? route.responses[range]
+    ?? route.responses[range.toLowerCase()]
+    ?? route.responses.default;
+
+  if (!schemas) {
+    const issue = { location: 'response' as const, path: [], message: \`Status \${status} is not declared\`, code: 'undeclared_status' };
+    return { success: false, error: { message: 'Response validation failed', issues: [issue] } };
+  }
+
+  const schema = selectSchema(schemas, contentType);
+  if (!schema) return { success: true, data: body };
+
+  const result = schema.safeParse(body);
+  if (result.success) return { success: true, data: result.data };
+  return { success: false, error: { message: 'Response validation failed', issues: toIssues('response', result.error) } };
+}
+
+/**
+ * Whether a request carries a body, judged by its headers as body parsers do; some parsers set an
+ * empty object on requests without one.
+ */
+export function hasBody(headers: Record<string, unknown>): boolean {
+  return headers['transfer-encoding'] !== undefined || (headers['content-length'] !== undefined && headers['content-length'] !== '0');
+}
+
+export function isDevelopment(): boolean {
+  const env = (globalThis as { process?: { env?: Record<string, string | undefined> } }).process?.env;
+  return env?.NODE_ENV === 'development';
+}
+
+export interface ValidationOptions {
+  /** Validate outgoing JSON responses (defaults to NODE_ENV === 'development') */
+  validateResponses?: boolean;
+}`;
+
+const EXPRESS_ADAPTER = `import { RouteDefinition, ValidationOptions, validateRequest, validateResponse, hasBody, isDevelopment } from './routes.js';
+
+// Minimal structural types so the adapter does not depend on @types/express
+interface ExpressRequest {
+  params: unknown;
+  query: unknown;
+  headers: Record<string, unknown>;
+  cookies?: unknown;
+  body?: unknown;
+}
+
+interface ExpressResponse {
+  statusCode: number;
+  locals: Record<string, unknown>;
+  status(code: number): ExpressResponse;
+  json(body: unknown): unknown;
+  getHeader(name: string): unknown;
+}
+
+type NextFunction = (error?: unknown) => void;
+
+/**
+ * Validate params, query, headers, cookies and body of a route.
+ * Parsed values are stored in \`res.locals.validated\`, and \`req.body\` is replaced by the parsed body.
+ */
+export function validate(route: RouteDefinition, options: ValidationOptions = {}) {
+  const validateResponses = options.validateResponses ?? isDevelopment();
+
+  return (req: ExpressRequest, res: ExpressResponse, next: NextFunction): void => {
+    const result = validateRequest(route, {
+      params: req.params,
+      query: req.query,
+      headers: req.headers,
+      cookies: req.cookies,
+      body: hasBody(req.headers) ? req.body : undefined,
+      contentType: req.headers['content-type'] as string | undefined
+    });
+
+    if (!result.success) {
+      res.status(400).json(result.error);
+      return;
+    }
+
+    res.locals.validated = result.data;
+    if (route.body) req.body = result.data.body;
+
+    if (validateResponses) {
+      const json = res.json.bind(res);
+      res.json = (body: unknown) => {
+        const checked = validateResponse(route, res.statusCode, body, res.getHeader('content-type') as string | undefined);
+        if (!checked.success) return json.call(res.status(500), checked.error);
+        return json(body);
+      };
+    }
+
+    next();
+  };
+}
+`;
+
+const FASTIFY_ADAPTER = `import { RouteDefinition, ValidationOptions, validateRequest, validateResponse, isDevelopment } from './routes.js';
+
+// Minimal structural types so the adapter does not depend on fastify
+interface FastifyRequest {
+  params: unknown;
+  query: unknown;
+  headers: Record<string, unknown>;
+  cookies?: unknown;
+  body?: unknown;
+}
+
+interface FastifyReply {
+  statusCode: number;
+  code(statusCode: number): FastifyReply;
+  send(payload?: unknown): FastifyReply;
+  getHeader(name: string): unknown;
+}
+
+/**
+ * Hooks for a route: spread the result into the route options, e.g.
+ * \`fastify.route({ method, url: route.routePath, ...hooks(route), handler })\`
+ */
+export function hooks(route: RouteDefinition, options: ValidationOptions = {}) {
+  const validateResponses = options.validateResponses ?? isDevelopment();
+
+  const preValidation = async (request: FastifyRequest, reply: FastifyReply) => {
+    const result = validateRequest(route, {
+      params: request.params,
+      query: request.query,
+      headers: request.headers,
+      cookies: request.cookies,
+      body: request.body,
+      contentType: request.headers['content-type'] as string | undefined
+    });
+
+    if (!result.success) {
+      return reply.code(400).send(result.error);
+    }
+
+    request.params = result.data.params;
+    request.query = result.data.query;
+    request.body = result.data.body;
+    return undefined;
+  };
+
+  const preSerialization = async (_request: FastifyRequest, reply: FastifyReply, payload: unknown) => {
+    const checked = validateResponse(route, reply.statusCode, payload, reply.getHeader('content-type') as string | undefined);
+    if (checked.success) return payload;
+    reply.code(500);
+    return checked.error;
+  };
+
+  return validateResponses ? { preValidation, preSerialization } : { preValidation };
+}
+`;
+
+const HONO_ADAPTER = `import { RouteDefinition, ValidationOptions, validateRequest, validateResponse, hasBody, isDevelopment } from './routes.js';
+
+// Minimal structural types so the adapter does not depend on hono
+interface HonoContext {
+  req: {
+    param(): Record<string, string>;
+    queries(): Record<string, string[]>;
+    header(): Record<string, string>;
+    json(): Promise<unknown>;
+    text(): Promise<unknown>;
+    parseBody(options: { all: boolean }): Promise<unknown>;
+  };
+  res: Response;
+  set(key: 'validated', value: unknown): void;
+  json(body: unknown, status: number): Response;
+}
+
+type Next = () => Promise<void>;
+
+function parseCookies(header: string | undefined): Record<string, string> {
+  return Object.fromEntries((header || '')
+    .split(';')
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => {
+      const index = part.indexOf('=');
+      return [part.slice(0, index), decodeURIComponent(part.slice(index + 1))];
+    }));
+}
+
+async function readBody(c: HonoContext, contentType: string): Promise<unknown> {
+  if (contentType.includes('json')) return c.req.json().catch(() => undefined);
+  if (contentType.startsWith('multipart/') || contentType === 'application/x-www-form-urlencoded') {
+    return c.req.parseBody({ all: true });
+  }
+  return c.req.text();
+}
+
+/**
+ * Validation middleware; the parsed input is available as \`c.get('validated')\`.
+ */
+export function validate(route: RouteDefinition, options: ValidationOptions = {}) {
+  const validateResponses = options.validateResponses ?? isDevelopment();
+
+  return async (c: HonoContext, next: Next) => {
+    const headers = c.req.header();
+    const contentType = (headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+    // Repeated query keys become arrays, single ones stay plain strings
+    const query = Object.fromEntries(Object.entries(c.req.queries())
+      .map(([name, values]) => [name, values.length === 1 ? values[0] : values]));
+
+    const result = validateRequest(route, {
+      params: c.req.param(),
+      query,
+      headers,
+      cookies: parseCookies(headers.cookie),
+      body: route.body && hasBody(headers) ? await readBody(c, contentType) : undefined,
+      contentType
+    });
+
+    if (!result.success) {
+      return c.json(result.error, 400);
+    }
+
+    c.set('validated', result.data);
+    await next();
+
+    const responseType = c.res.headers.get('content-type') || '';
+    if (validateResponses && responseType.includes('json')) {
+      const body = await c.res.clone().json().catch(() => undefined);
+      const checked = validateResponse(route, c.res.status, body, responseType);
+      if (!checked.success) c.res = c.json(checked.error, 500);
+    }
+    return undefined;
+  };
+}
+`;
+
+export class ServerGenerator {
+  private operations: OperationSchema[];
+  private naming: Naming;
+
+  constructor(operations: OperationSchema[], options: GeneratorOptions = {}) {
+    this.operations = operations;
+    this.naming = new Naming(options, [], operations.map(opSchema => opSchema.operationId));
+  }
+
+  generateServerFiles(): GeneratedFile[] {
+    return [
+      { dirName: '_server', fileName: 'routes.ts', content: this.generateRoutes() },
+      { dirName: '_server', fileName: 'express.ts', content: EXPRESS_ADAPTER },
+      { dirName: '_server', fileName: 'fastify.ts', content: FASTIFY_ADAPTER },
+      { dirName: '_server', fileName: 'hono.ts', content: HONO_ADAPTER }
+    ];
+  }
+
+  private generateRoutes(): string {
+    const imports: string[] = ["import { z } from 'zod';"];
+    const routes: string[] = [];
+
+    this.operations.forEach(opSchema => {
+      const namespace = this.naming.operationNamespace(opSchema.operationId);
+      imports.push(`import * as ${namespace} from '${this.naming.operationImport(opSchema.operationId)}';`);
+      routes.push(this.generateRoute(opSchema, namespace));
+    });
+
+    return [
+      ...imports,
+      '',
+      ROUTES_RUNTIME,
+      '',
+      '/**',
+      ' * Route manifest keyed by operationId',
+      ' */',
+      'export const routes: Record<string, RouteDefinition> = {',
+      routes.join(',\n'),
+      '};',
+      ''
+    ].join('\n');
+  }
+
+  private generateRoute(opSchema: OperationSchema, namespace: string): string {
+    const fields: string[] = [
+      `operationId: ${JSON.stringify(opSchema.operationId)}`,
+      `method: '${opSchema.method}'`,
+      `path: ${JSON.stringify(opSchema.path)}`,
+      `routePath: ${JSON.stringify(opSchema.path.replace(/\{([^}]+)\}/g, ':$1'))}`
+    ];
+
+    (Object.keys(PARAMETER_FIELDS) as ParameterLocation[]).forEach(location => {
+      if (!opSchema.parameters.some(parameter => parameter.in === location)) return;
+      const { key, exportName } = PARAMETER_FIELDS[location];
+      fields.push(`${key}: ${namespace}.${exportName}`);
+    });
+
+    if (Object.keys(opSchema.request).length > 0) {
+      fields.push(`body: ${this.generateContentMap(Object.keys(opSchema.request), 'Request', namespace)}`);
+      if (opSchema.requestRequired) fields.push('bodyRequired: true');
+    }
+
+    const responses = Object.entries(opSchema.responses).map(([statusCode, response]) =>
+      `${JSON.stringify(statusCode)}: ${this.generateContentMap(Object.keys(response.content), this.naming.responseName(statusCode), namespace)}`
+    );
+    fields.push(`responses: { ${responses.join(', ')} }`);
+
+    return [
+      `  ${JSON.stringify(opSchema.operationId)}: {`,
+      fields.map(field => `    ${field}`).join(',\n'),
+      '  }'
+    ].join('\n');
+  }
+
+  private generateContentMap(mediaTypes: string[], baseName: string, namespace: string): string {
+    const names = getContentExportNames(mediaTypes, baseName);
+    const entries = Object.entries(names).map(([mediaType, name]) => `${JSON.stringify(mediaType)}: ${namespace}.${name}`);
+    return `{ ${entries.join(', ')} }`;
+  }
+}
@@ -0,0 +1,359 @@
+import { OpenAPIDocument, Schema, OperationSchema, GeneratedFile, GeneratorOptions, MediaType, Parameter, ParameterLocation, Example, Reference } from '../types.js';
+import { getSchemaTypes, isComponentSchema } from '../utils/helpers.js';
+import { getRefName, resolveReference } from '../utils/jsonPointer.js';
+import { DEFAULT_JSON_MEDIA_TYPES, isJsonMediaType, getContentExportNames } from '../utils/mediaTypes.js';
+import { PARAMETER_LOCATIONS, getParameterStyle, getParameterExplode } from '../utils/parameters.js';
+import { Naming } from '../utils/naming.js';
+import { resolveOverrides } from '../utils/overrides.js';
+import { Visibility, isVisible } from '../utils/visibility.js';
+
+// Assertions shared by every generated test file
+const TEST_RUNTIME = `import assert from 'node:assert/strict';
+import type { ZodTypeAny } from 'zod';
+
+export function assertAccepts(schema: ZodTypeAny, value: unknown): void {
+  const result = schema.safeParse(value);
+  assert.ok(result.success, result.success ? undefined : \`Expected the value to parse:\\n\${result.error.message}\`);
+}
+
+export function assertRejects(schema: ZodTypeAny, value: unknown): void {
+  assert.equal(schema.safeParse(value).success, false, \`Expected \${JSON.stringify(value)} to be rejected\`);
+}
+
+// A copy of \`base\` with the property at \`path\` set to \`value\`, or removed when no value is given
+export function edit(base: unknown, path: string[], ...value: unknown[]): unknown {
+  const copy = structuredClone(base);
+  let target = copy as Record<string, unknown>;
+  path.slice(0, -1).forEach(key => {
+    if (target[key] === null || typeof target[key] !== 'object') target[key] = {};
+    target = target[key] as Record<string, unknown>;
+  });
+  if (value.length === 0) delete target[path[path.length - 1]];
+  else target[path[path.length - 1]] = value[0];
+  return copy;
+}
+`;
+
+const PARAMETER_EXPORTS: Record<ParameterLocation, string> = {
+  path: 'PathParams',
+  query: 'QueryParams',
+  header: 'Headers',
+  cookie: 'Cookies'
+};
+
+// Values a spec is not expected to allow
+const NOT_IN_ENUM = '__not-in-enum__';
+const UNKNOWN_PROPERTY = '__unknown-property__';
+
+interface TestCase {
+  title: string;
+  exportName: string;
+  value: unknown;
+  accepts: boolean;
+  // Set when the test builds its value from a mock of \`base\`: the property at \`path\` is set to
+  // \`value\`, or removed; an empty path takes the mock as it is
+  mock?: { base: Schema; path: string[]; remove: boolean };
+}
+
+// A change that makes a valid object value invalid, or keeps it valid with a property example
+interface Edit {
+  title: string;
+  accepts: boolean;
+  path: string[];
+  remove: boolean;
+  value?: unknown;
+}
+
+export class TestGenerator {
+  private document: OpenAPIDocument;
+  private schemas: Record<string, Schema>;
+  private operations: OperationSchema[];
+  private jsonMediaTypes: string[];
+  private overrides: Map<Schema, string>;
+  private naming: Naming;
+
+  constructor(document: OpenAPIDocument, operations: OperationSchema[], options: GeneratorOptions = {}) {
+    this.document = document;
+    this.schemas = document.components?.schemas || {};
+    this.operations = operations;
+    this.jsonMediaTypes = options.jsonMediaTypes || DEFAULT_JSON_MEDIA_TYPES;
+    this.overrides = resolveOverrides(document, options.overrides);
+    this.naming = new Naming(options, Object.keys(this.schemas), operations.map(opSchema => opSchema.operationId));
+  }
+
+  generateTestFiles(): GeneratedFile[] {
+    const files: GeneratedFile[] = [{ dirName: '_tests', fileName: 'assertions.ts', content: TEST_RUNTIME }];
+
+    Object.entries(this.schemas).forEach(([name, schema]) => {
+      const schemaName = this.naming.schemaName(name);
+      // Referenced by name, so tests that mock the component do not repeat its schema
+      const ref = { $ref: `#/components/schemas/${name}` };
+      const cases = this.collectSchemaCases(ref, schemaName, 'output', this.getExamples(schema));
+      if (cases.length > 0) {
+        files.push({
+          dirName: this.naming.componentsDir,
+          fileName: `${this.naming.componentFile(name)}.test.ts`,
+          content: this.renderTests(cases, `./${this.naming.componentFile(name)}.js`)
+        });
+      }
+    });
+
+    this.operations.forEach(opSchema => {
+      const cases = [
+        ...this.collectParameterCases(opSchema.parameters),
+        ...this.collectContentCases(opSchema.request, 'Request', 'input'),
+        ...Object.entries(opSchema.responses).flatMap(([statusCode, response]) =>
+          this.collectContentCases(response.content, this.naming.responseName(statusCode), 'output'))
+      ];
+      if (cases.length > 0) {
+        files.push({
+          dirName: this.naming.operationDir(opSchema.operationId),
+          fileName: `${this.naming.operationFile}.test.ts`,
+          content: this.renderTests(cases, `./${this.naming.operationFile}.js`)
+        });
+      }
+    });
+
+    return files;
+  }
+
+  private renderTests(cases: TestCase[], modulePath: string): string {
+    const exportNames = Array.from(new Set(cases.map(({ exportName }) => exportName)));
+    // One mock per base schema, shared by the tests editing it
+    const mocks = new Map<string, string>();
+    cases.forEach(({ mock }) => {
+      const key = mock && JSON.stringify(mock.base);
+      if (key && !mocks.has(key)) mocks.set(key, `mock${mocks.size + 1}`);
+    });
+
+    const content: string[] = [
+      "import { test } from 'node:test';",
+      `import { ${exportNames.join(', ')} } from '${modulePath}';`,
+      `import { assertAccepts, assertRejects${mocks.size > 0 ? ', edit' : ''} } from '../_tests/assertions.js';`,
+      ...(mocks.size > 0 ? ["import { generateMock } from '../_mocks/runtime.js';"] : []),
+      ''
+    ];
+    if (mocks.size > 0) {
+      mocks.forEach((name, base) => content.push(`const ${name} = generateMock(${base});`));
+      content.push('');
+    }
+
+    cases.forEach(({ title, exportName, value, accepts, mock }) => {
+      let expression = JSON.stringify(value);
+      if (mock) {
+        const name = mocks.get(JSON.stringify(mock.base))!;
+        const args = [name, JSON.stringify(mock.path), ...(mock.remove ? [] : [JSON.stringify(value)])];
+        expression = mock.path.length === 0 ? name : `edit(${args.join(', ')})`;
+      }
+      content.push(`test(${JSON.stringify(`${exportName} ${title}`)}, () => {`);
+      content.push(`  ${accepts ? 'assertAccepts' : 'assertRejects'}(${exportName}, ${expression});`);
+      content.push('});');
+      content.push('');
+    });
+
+    return content.join('\n');
+  }
+
+  private getExamples(schema: Schema | undefined): Array<{ label: string; value: unknown }> {
+    if (!schema) return [];
+    const values = [
+      ...(schema.example !== undefined ? [schema.example] : []),
+      ...(Array.isArray(schema.examples) ? schema.examples : [])
+    ];
+    return values.map((value, index) => ({ label: values.length > 1 ? `example ${index + 1}` : 'its example', value }));
+  }
+
+  private getMediaExamples(media: { example?: unknown; examples?: Record<string, Example | Reference> }): Array<{ label: string; value: unknown }> {
+    const examples = Object.entries(media.examples || {}).flatMap(([exampleName, example]) => {
+      // Examples may be shared through components/examples
+      const resolved = resolveReference<Example>(this.document, example);
+      return resolved?.value !== undefined ? [{ label: `example "${exampleName}"`, value: resolved.value }] : [];
+    });
+    return media.example !== undefined ? [{ label: 'its example', value: media.example }, ...examples] : examples;
+  }
+
+  private collectContentCases(content: Record<string, MediaType>, baseName: string, visibility: Visibility): TestCase[] {
+    const names = getContentExportNames(Object.keys(content), baseName);
+
+    // Only JSON bodies are parsed from their example values as they are
+    return Object.entries(content)
+      .filter(([mediaType, media]) => media.schema && isJsonMediaType(mediaType, this.jsonMediaTypes))
+      .flatMap(([mediaType, media]) => {
+        // Examples of a referenced component are already covered by its own tests
+        const isComponent = isComponentSchema(media.schema);
+        const schemaExamples = isComponent ? [] : this.getExamples(media.schema);
+        return this.collectSchemaCases(media.schema!, names[mediaType], visibility, [...this.getMediaExamples(media), ...schemaExamples], !isComponent);
+      });
+  }
+
+  private collectParameterCases(parameters: Parameter[]): TestCase[] {
+    return PARAMETER_LOCATIONS.flatMap(location => {
+      const inLocation = parameters.filter(parameter => parameter.in === location);
+      if (inLocation.length === 0) return [];
+
+      const value: Record<string, unknown> = {};
+      for (const parameter of inLocation) {
+        const schema = this.resolve(parameter.schema);
+        // Exploded form objects are spread over several keys, which a single example cannot fill in
+        if (schema && getSchemaTypes(schema).includes('object') && getParameterStyle(parameter) === 'form' && getParameterExplode(parameter)) {
+          return [];
+        }
+        const [example] = [...this.getMediaExamples(parameter), ...this.getExamples(parameter.schema)];
+        if (example) {
+          value[location === 'header' ? parameter.name.toLowerCase() : parameter.name] = example.value;
+        } else if (location === 'path' || parameter.required) {
+          return [];
+        }
+      }
+
+      if (Object.keys(value).length === 0) return [];
+      return [{ title: 'accepts the parameter examples', exportName: PARAMETER_EXPORTS[location], value, accepts: true }];
+    });
+  }
+
+  private collectSchemaCases(
+    schema: Schema,
+    exportName: string,
+    visibility: Visibility,
+    examples: Array<{ label: string; value: unknown }>,
+    withPropertyExamples = true
+  ): TestCase[] {
+    const cases: TestCase[] = examples.map(({ label, value }) => ({ title: `accepts ${label}`, exportName, value, accepts: true }));
+
+    // Negative cases start from a valid value, so overridden schemas are left alone
+    const resolved = this.resolve(schema);
+    if (!resolved || this.overrides.has(schema) || this.overrides.has(resolved)) return cases;
+
+    const [base] = examples;
+    if (!this.isPlainObjectSchema(resolved) || (base && !isPlainObject(base.value))) {
+      this.getValueViolations(resolved).forEach(({ title, value }) => cases.push({ title: `rejects ${title}`, exportName, value, accepts: false }));
+      return cases;
+    }
+
+    const propertyExamples = withPropertyExamples ? this.getPropertyExamples(resolved, visibility) : [];
+    const edits = [...propertyExamples, ...this.getObjectViolations(resolved, visibility, base?.value as Record<string, unknown> | undefined)];
+    const toCase = ({ title, accepts, value }: Edit): TestCase => ({ title, exportName, value, accepts });
+    if (base) {
+      // Example values are edited here, so the tests carry the resulting value
+      edits.forEach(edit => cases.push({ ...toCase(edit), value: applyEdit(base.value, edit) }));
+      return cases;
+    }
+
+    // Without an example, a mock of the schema stands in for the valid value. Mocks include readOnly
+    // and writeOnly properties alike, so schemas hiding some of them are left out
+    const hidden = Object.values(resolved.properties!).some(property => !isVisible(property, visibility));
+    if (edits.length === 0 || hidden) return cases;
+    cases.push({ title: 'accepts a mocked value', exportName, value: undefined, accepts: true, mock: { base: schema, path: [], remove: false } });
+    edits.forEach(edit => cases.push({ ...toCase(edit), mock: { base: schema, path: edit.path, remove: edit.remove } }));
+    return cases;
+  }
+
+  private isPlainObjectSchema(schema: Schema): boolean {
+    return !!schema.properties && !schema.allOf && !schema.oneOf && !schema.anyOf && !schema.patternProperties;
+  }
+
+  // Examples of nested inline properties, each set on an otherwise valid value
+  private getPropertyExamples(schema: Schema, visibility: Visibility, path: string[] = []): Edit[] {
+    return Object.entries(schema.properties || {}).flatMap(([key, property]) => {
+      // Referenced components and overridden properties are covered elsewhere
+      if (!isVisible(property, visibility) || isComponentSchema(property) || this.overrides.has(property)) return [];
+      const propertyPath = [...path, key];
+      const examples = this.getExamples(property).map(({ label, value }) => ({
+        title: `accepts ${label.replace(/^its /, 'the ')} of "${propertyPath.join('.')}"`,
+        accepts: true,
+        path: propertyPath,
+        remove: false,
+        value
+      }));
+      return this.isPlainObjectSchema(property) ? [...examples, ...this.getPropertyExamples(property, visibility, propertyPath)] : examples;
+    });
+  }
+
+  // `base` is the example the violations are applied to; properties it leaves out are not removed
+  private getObjectViolations(schema: Schema, visibility: Visibility, base?: Record<string, unknown>): Edit[] {
+    const violations: Edit[] = [];
+
+    Object.entries(schema.properties || {}).forEach(([key, property]) => {
+      if (!isVisible(property, visibility) || (base && !(key in base)) || this.overrides.has(property)) return;
+
+      // A default fills in a missing property instead of failing
+      if (schema.required?.includes(key) && property.default === undefined) {
+        violations.push({ title: `rejects a missing required property "${key}"`, accepts: false, path: [key], remove: true });
+      }
+
+      const resolved = this.resolve(property);
+      if (resolved && !this.overrides.has(resolved)) {
+        this.getValueViolations(resolved).forEach(({ title, value }) => {
+          violations.push({ title: `rejects "${key}" with ${title}`, accepts: false, path: [key], remove: false, value });
+        });
+      }
+    });
+
+    if (schema.additionalProperties === false) {
+      violations.push({ title: 'rejects an unknown property', accepts: false, path: [UNKNOWN_PROPERTY], remove: false, value: true });
+    }
+
+    return violations;
+  }
+
+  private getValueViolations(schema: Schema): Array<{ title: string; value: unknown }> {
+    const types = getSchemaTypes(schema).filter(type => type !== 'null');
+    if (types.length !== 1 || schema.allOf || schema.oneOf || schema.anyOf || schema['x-zod-transform']) return [];
+    const [type] = types;
+    const violations: Array<{ title: string; value: unknown }> = [];
+
+    if (schema.enum) {
+      violations.push({ title: 'a value outside the enum', value: NOT_IN_ENUM });
+      return violations;
+    }
+
+    if (type === 'string' && schema.format !== 'binary') {
+      if (schema.minLength !== undefined && schema.minLength > 0) {
+        violations.push({ title: `a string shorter than ${schema.minLength}`, value: 'a'.repeat(schema.minLength - 1) });
+      }
+      if (schema.maxLength !== undefined) {
+        violations.push({ title: `a string longer than ${schema.maxLength}`, value: 'a'.repeat(schema.maxLength + 1) });
+      }
+    }
+
+    if (type === 'number' || type === 'integer') {
+      // 3.0 uses boolean exclusive flags, 3.1 numeric bounds
+      if (schema.minimum !== undefined) {
+        violations.push({ title: 'a number below the minimum', value: schema.exclusiveMinimum === true ? schema.minimum : schema.minimum - 1 });
+      } else if (typeof schema.exclusiveMinimum === 'number') {
+        violations.push({ title: 'a number below the minimum', value: schema.exclusiveMinimum });
+      }
+      if (schema.maximum !== undefined) {
+        violations.push({ title: 'a number above the maximum', value: schema.exclusiveMaximum === true ? schema.maximum : schema.maximum + 1 });
+      } else if (typeof schema.exclusiveMaximum === 'number') {
+        violations.push({ title: 'a number above the maximum', value: schema.exclusiveMaximum });
+      }
+    }
+
+    return violations;
+  }
+
+  private resolve(schema: Schema | undefined): Schema | undefined {
+    if (schema && isComponentSchema(schema)) {
+      return this.schemas[getRefName(schema.$ref!)];
+    }
+    return schema;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Same as \`edit()\` in the test runtime, for values known while generating
+function applyEdit(base: unknown, { path, remove, value }: Edit): unknown {
+  const copy = structuredClone(base) as Record<string, unknown>;
+  let target = copy;
+  path.slice(0, -1).forEach(key => {
+    if (!isPlainObject(target[key])) target[key] = {};
+    target = target[key] as Record<string, unknown>;
+  });
+  if (remove) delete target[path[path.length - 1]];
+  else target[path[path.length - 1]] = value;
+  return copy;
+}
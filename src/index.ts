@@ -1,71 +1,196 @@
 import fs from 'fs';
 import path from 'path';
 import { ZodSchemaGenerator } from './generator.js';
-import { parseArgs } from './cli.js';
-import { OpenAPIDocument } from './types.js';
+import { DocumentLoader, LoadError } from './loader/documentLoader.js';
+import { planOutput, applyPlan, isOutdated, formatPlan } from './writer.js';
+import { parseArgs, DEFAULT_OPTIONS } from './cli.js';
+import { findConfigFile, loadConfig } from './config.js';
+import { Naming, WEBHOOKS_DIR } from './utils/naming.js';
+import { Profiler, formatReport } from './utils/profiler.js';
+import { SpecValidator, hasErrors, formatDiagnostics } from './validator/specValidator.js';
+import { CLIOptions, Diagnostic } from './types.js';
+
+interface RunResult {
+  exitCode: number;
+  sourceFiles: string[];
+}
+
+// With `--format json` stdout carries only the diagnostics, progress goes to stderr
+function getLogger(options: Partial<CLIOptions>): (message: string) => void {
+  return options.format === 'json' ? console.error : console.log;
+}
+
+function reportDiagnostics(options: CLIOptions, diagnostics: Diagnostic[]): void {
+  if (options.format === 'json') {
+    process.stdout.write(`${JSON.stringify({ diagnostics }, null, 2)}\n`);
+    return;
+  }
+  if (diagnostics.length === 0) return;
+
+  const errors = diagnostics.filter(diagnostic => diagnostic.severity === 'error').length;
+  console.log(`Found ${errors} error(s) and ${diagnostics.length - errors} warning(s):`);
+  formatDiagnostics(diagnostics).forEach(line => console.log(line));
+}
+
+function run(options: CLIOptions, documentPath: string, outputDir: string): RunResult {
+  const log = getLogger(options);
+  const profiler = new Profiler();
+  const printReport = () => {
+    if (!options.report) return;
+    log('📊 Generation report:');
+    formatReport(profiler).forEach(line => log(line));
+  };
+  log(`Reading ${options.file}...`);
+  const { document: openApiDoc, files: sourceFiles } = profiler.phase('load', () => new DocumentLoader().load(documentPath));
+  if (sourceFiles.length > 1) {
+    log(`   Resolved references across ${sourceFiles.length} files`);
+  }
+
+  // Validate before generating so malformed input is reported instead of silently dropped
+  const diagnostics = profiler.phase('validate', () => new SpecValidator(openApiDoc).validate());
+  if (hasErrors(diagnostics, options.strict)) {
+    reportDiagnostics(options, diagnostics);
+    log(`❌ ${options.strict ? 'Strict mode: ' : ''}fix the reported problems before generating`);
+    return { exitCode: 1, sourceFiles };
+  }
+
+  log('Generating Zod schemas...');
+  const { file, output, config, watch, check, format, strict, report, ...generatorOptions } = options;
+  const generator = new ZodSchemaGenerator(openApiDoc, generatorOptions, profiler);
+  const files = generator.generate();
+
+  // Generation finds problems of its own, e.g. discriminators it cannot use; all are reported together
+  reportDiagnostics(options, [...diagnostics, ...generator.diagnostics]);
+  if (hasErrors(generator.diagnostics, options.strict)) {
+    log(`❌ ${options.strict ? 'Strict mode: ' : ''}fix the reported problems before writing the output`);
+    return { exitCode: 1, sourceFiles };
+  }
+
+  // Compare against disk so only changed files are touched
+  const plan = profiler.phase('compare', () => planOutput(outputDir, files));
+
+  if (check) {
+    printReport();
+    if (!isOutdated(plan)) {
+      log(`✅ ${options.output} is up to date (${files.length} files)`);
+      return { exitCode: 0, sourceFiles };
+    }
+    log(`❌ ${options.output} is out of date:`);
+    formatPlan(plan).forEach(line => log(line));
+    return { exitCode: 1, sourceFiles };
+  }
+
+  profiler.phase('write', () => applyPlan(outputDir, plan));
+
+  const count = (status: string) => plan.filter(entry => entry.status === status).length;
+  log(`✅ Successfully generated ${files.length} files`);
+  log(`   - Written: ${count('added') + count('changed')}, unchanged: ${count('unchanged')}, removed: ${count('removed')}`);
+  const { componentsDir } = new Naming(options);
+  const operationDirs = new Set(files
+    .filter(f => f.dirName && f.dirName !== componentsDir && !f.dirName.startsWith('_'))
+    .map(f => f.dirName));
+  log(`   - Operation endpoints: ${operationDirs.size}`);
+  log(`   - Component schemas: ${files.filter(f => f.dirName === componentsDir && !f.fileName.endsWith('.test.ts')).length}`);
+  const webhookCount = files.filter(f => f.dirName === WEBHOOKS_DIR).length;
+  if (webhookCount > 0) {
+    log(`   - Webhooks and callbacks: ${webhookCount}`);
+  }
+  log(`   - Total directories: ${new Set(files.map(f => f.dirName).filter(Boolean)).size}`);
+  if (options.client) {
+    log(`   - Client: ${options.output}/client.ts`);
+  }
+  if (options.server) {
+    log(`   - Server middleware: ${options.output}/_server/`);
+  }
+  if (options.mocks) {
+    log(`   - Mocks: ${options.output}/_mocks/${options.msw ? ' (with MSW handlers)' : ''}`);
+  }
+  if (options.tests) {
+    log(`   - Tests: ${files.filter(f => f.fileName.endsWith('.test.ts')).length} test files`);
+  }
+
+  // Show sample operation directories
+  const sampleOps = Array.from(operationDirs)
+    .slice(0, 5)
+    .map(dirName => `${options.output}/${dirName}/`);
+  if (sampleOps.length > 0) {
+    log(`   - Sample operations: ${sampleOps.join(', ')}`);
+  }
+  printReport();
+
+  return { exitCode: 0, sourceFiles };
+}
+
+function watchSources(options: CLIOptions, documentPath: string, outputDir: string): void {
+  const log = getLogger(options);
+  let watchers: fs.FSWatcher[] = [];
+  let timer: NodeJS.Timeout | undefined;
+
+  const regenerate = () => {
+    let sourceFiles = [documentPath];
+    try {
+      sourceFiles = run(options, documentPath, outputDir).sourceFiles;
+    } catch (error) {
+      console.error('Error generating schemas:', (error as Error).message);
+    }
+
+    // Referenced files may have changed, so the watched set is rebuilt on every run
+    watchers.forEach(watcher => watcher.close());
+    watchers = sourceFiles
+      .filter(sourceFile => fs.existsSync(sourceFile))
+      .map(sourceFile => fs.watch(sourceFile, () => {
+        clearTimeout(timer);
+        timer = setTimeout(regenerate, 100);
+      }));
+    log(`👀 Watching ${watchers.length} file(s) for changes...`);
+  };
+
+  regenerate();
+}
 
 async function main(): Promise<void> {
+  let format: CLIOptions['format'];
   try {
-    const options = parseArgs();
-    
+    // Command-line flags take precedence over the config file
+    const args = parseArgs();
+    format = args.format;
+    const configPath = args.config ? path.resolve(process.cwd(), args.config) : findConfigFile();
+    const config = configPath ? await loadConfig(configPath) : {};
+    if (configPath) {
+      getLogger(args)(`Using config ${path.relative(process.cwd(), configPath)}`);
+    }
+    const options: CLIOptions = { ...DEFAULT_OPTIONS, ...config, ...args };
+    if (config.formats || args.formats) {
+      options.formats = { ...config.formats, ...args.formats };
+    }
+
     // Resolve paths relative to current working directory or as absolute paths
-    const documentPath = path.isAbsolute(options.file) 
-      ? options.file 
+    const documentPath = path.isAbsolute(options.file)
+      ? options.file
       : path.resolve(process.cwd(), options.file);
-    const outputDir = path.isAbsolute(options.output) 
-      ? options.output 
+    const outputDir = path.isAbsolute(options.output)
+      ? options.output
       : path.resolve(process.cwd(), options.output);
-    
-    console.log(`Reading ${options.file}...`);
-    const documentContent = fs.readFileSync(documentPath, 'utf-8');
-    const openApiDoc: OpenAPIDocument = JSON.parse(documentContent);
-    
-    console.log('Generating Zod schemas...');
-    const generator = new ZodSchemaGenerator(openApiDoc);
-    const files = generator.generate();
-    
-    // Clean and create output directory
-    if (fs.existsSync(outputDir)) {
-      fs.rmSync(outputDir, { recursive: true, force: true });
-    }
-    fs.mkdirSync(outputDir, { recursive: true });
-    
-    // Write files to their directories
-    let fileCount = 0;
-    const dirCount = new Set<string>();
-    
-    files.forEach(file => {
-      const dirPath = file.dirName ? path.join(outputDir, file.dirName) : outputDir;
-      
-      // Create directory if it doesn't exist
-      if (!fs.existsSync(dirPath)) {
-        fs.mkdirSync(dirPath, { recursive: true });
-        if (file.dirName) dirCount.add(file.dirName);
-      }
-      
-      const filePath = path.join(dirPath, file.fileName);
-      fs.writeFileSync(filePath, file.content);
-      fileCount++;
-    });
-    
-    console.log(`✅ Successfully generated ${fileCount} files`);
-    console.log(`   - Operation endpoints: ${files.filter(f => f.dirName && f.dirName !== '_components').length}`);
-    console.log(`   - Component schemas: ${files.filter(f => f.dirName === '_components').length}`);
-    console.log(`   - Total directories: ${dirCount.size}`);
-    
-    // Show sample operation directories
-    const sampleOps = files
-      .filter(f => f.dirName && f.dirName !== '_components')
-      .slice(0, 5)
-      .map(f => `${options.output}/${f.dirName}/`);
-    if (sampleOps.length > 0) {
-      console.log(`   - Sample operations: ${sampleOps.join(', ')}`);
+
+    if (options.watch) {
+      watchSources(options, documentPath, outputDir);
+      return;
     }
+
+    const { exitCode } = run(options, documentPath, outputDir);
+    process.exit(exitCode);
   } catch (error) {
-    console.error('Error generating schemas:', (error as Error).message);
-    console.error((error as Error).stack);
+    // Loader and config failures are reported like any other diagnostic
+    const pointer = error instanceof LoadError ? error.pointer : '#';
+    const diagnostic: Diagnostic = { severity: 'error', code: 'load-error', message: (error as Error).message, pointer };
+    if (format === 'json') {
+      process.stdout.write(`${JSON.stringify({ diagnostics: [diagnostic] }, null, 2)}\n`);
+    } else {
+      console.error('Error generating schemas:');
+      formatDiagnostics([diagnostic]).forEach(line => console.error(line));
+    }
     process.exit(1);
   }
 }
 
-main();
\ No newline at end of file
+main();
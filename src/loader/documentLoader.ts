@@ -0,0 +1,192 @@
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { OpenAPIDocument } from '../types.js';
+import { parseJsonPointer, formatJsonPointer, resolveJsonPointer, encodePointerSegment } from '../utils/jsonPointer.js';
+import { childKind, getReference, NodeKind } from '../utils/traversal.js';
+
+// Component sections whose external entries are copied into the root document
+// instead of being inlined, so generators can keep importing them by name
+const HOISTED_SECTIONS = ['schemas', 'parameters'];
+
+export interface LoadedDocument {
+  document: OpenAPIDocument;
+  files: string[];
+}
+
+interface RefTarget {
+  file: string;
+  pointer: string;
+}
+
+// A `$ref` that could not be followed, located by the pointer of the object holding it
+export class LoadError extends Error {
+  readonly pointer: string;
+
+  constructor(message: string, pointer: string) {
+    super(message);
+    this.name = 'LoadError';
+    this.pointer = pointer;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+export class DocumentLoader {
+  private cache = new Map<string, unknown>();
+  private rootFile = '';
+  private root: unknown = {};
+  private hoisted = new Map<string, string>();
+  private hoistedComponents: Record<string, Record<string, unknown>> = {};
+  private inlining: string[] = [];
+
+  load(filePath: string): LoadedDocument {
+    this.rootFile = path.resolve(filePath);
+    this.root = this.readFile(this.rootFile);
+    this.hoisted.clear();
+    this.hoistedComponents = {};
+    this.inlining = [];
+
+    const document = this.bundle(this.root, this.rootFile, []);
+
+    // Merge components pulled in from other files
+    Object.entries(this.hoistedComponents).forEach(([section, entries]) => {
+      if (!isObject(document)) return;
+      const components = isObject(document.components) ? document.components : {};
+      const existing = isObject(components[section]) ? components[section] : {};
+      document.components = { ...components, [section]: { ...existing, ...entries } };
+    });
+
+    return { document: document as OpenAPIDocument, files: Array.from(this.cache.keys()) };
+  }
+
+  private readFile(filePath: string): unknown {
+    if (this.cache.has(filePath)) return this.cache.get(filePath);
+
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Referenced file not found: ${filePath}`);
+    }
+
+    const content = fs.readFileSync(filePath, 'utf-8');
+    const extension = path.extname(filePath).toLowerCase();
+    let parsed: unknown;
+    try {
+      parsed = extension === '.json' ? JSON.parse(content) : YAML.parse(content);
+    } catch (error) {
+      throw new Error(`Failed to parse ${filePath}: ${(error as Error).message}`);
+    }
+
+    this.cache.set(filePath, parsed);
+    return parsed;
+  }
+
+  private resolveRefTarget(ref: string, currentFile: string): RefTarget {
+    const hashIndex = ref.indexOf('#');
+    const location = hashIndex >= 0 ? ref.slice(0, hashIndex) : ref;
+    const pointer = hashIndex >= 0 ? ref.slice(hashIndex) : '';
+
+    if (/^[a-z][a-z0-9+.-]*:\/\//i.test(location)) {
+      throw new Error(`Remote $ref is not supported: ${ref}`);
+    }
+
+    const file = location
+      ? path.resolve(path.dirname(currentFile), decodeURIComponent(location))
+      : currentFile;
+
+    // Normalize to a plain pointer so equivalent refs share one cache key
+    return { file, pointer: formatJsonPointer(parseJsonPointer(pointer)) };
+  }
+
+  // Literal values are copied as they are, even when they look like references
+  private bundle(node: unknown, currentFile: string, segments: string[], kind: NodeKind = 'keywords'): unknown {
+    if (Array.isArray(node)) {
+      return node.map((item, index) => this.bundle(item, currentFile, [...segments, String(index)]));
+    }
+    if (!isObject(node)) return node;
+
+    const $ref = getReference(node, kind);
+    const siblings: Record<string, unknown> = {};
+    Object.entries(node).forEach(([key, value]) => {
+      if (key === '$ref' && $ref !== undefined) return;
+      const child = childKind(key, value, kind);
+      siblings[key] = child === 'data' ? value : this.bundle(value, currentFile, [...segments, key], child);
+    });
+
+    if ($ref === undefined) return siblings;
+
+    try {
+      return this.follow($ref, currentFile, siblings);
+    } catch (error) {
+      // Failures further down were located where they happened
+      if (error instanceof LoadError) throw error;
+      const file = currentFile === this.rootFile ? '' : path.relative(process.cwd(), currentFile);
+      throw new LoadError((error as Error).message, `${file}#${formatJsonPointer(segments)}`);
+    }
+  }
+
+  // The bundled form of a `$ref`: a local component ref, a hoisted component or the inlined target
+  private follow($ref: string, currentFile: string, siblings: Record<string, unknown>): unknown {
+    const target = this.resolveRefTarget($ref, currentFile);
+    const segments = parseJsonPointer(`#${target.pointer}`);
+    const isComponent = segments.length === 3 && segments[0] === 'components';
+
+    // Component refs within the root document stay as they are
+    if (target.file === this.rootFile && isComponent) {
+      return { $ref: `#${target.pointer}`, ...siblings };
+    }
+
+    if (isComponent && HOISTED_SECTIONS.includes(segments[1])) {
+      const name = this.hoist(target, segments[1], segments[2]);
+      return { $ref: `#/components/${segments[1]}/${encodePointerSegment(name)}`, ...siblings };
+    }
+
+    const inlined = this.inline(target);
+    return isObject(inlined) ? { ...inlined, ...siblings } : inlined;
+  }
+
+  private hoist(target: RefTarget, section: string, baseName: string): string {
+    const key = `${target.file}#${target.pointer}`;
+    if (this.hoisted.has(key)) return this.hoisted.get(key)!;
+
+    const value = resolveJsonPointer(this.readFile(target.file), target.pointer);
+    if (value === undefined) {
+      throw new Error(`Unresolvable $ref: ${path.relative(process.cwd(), target.file)}#${target.pointer}`);
+    }
+
+    // Avoid clashing with components that already exist in the root document
+    const rootSection = resolveJsonPointer(this.root, `#/components/${section}`);
+    const existing = isObject(rootSection) ? rootSection : {};
+    const entries = this.hoistedComponents[section] = this.hoistedComponents[section] || {};
+    let name = baseName;
+    for (let index = 2; name in existing || name in entries; index++) {
+      name = `${baseName}${index}`;
+    }
+
+    // Register before bundling so recursive refs point back at this entry
+    this.hoisted.set(key, name);
+    entries[name] = {};
+    entries[name] = this.bundle(value, target.file, parseJsonPointer(`#${target.pointer}`));
+
+    return name;
+  }
+
+  private inline(target: RefTarget): unknown {
+    const key = `${target.file}#${target.pointer}`;
+    if (this.inlining.includes(key)) {
+      throw new Error(`Circular $ref cannot be inlined: ${[...this.inlining, key].join(' -> ')}`);
+    }
+
+    const value = resolveJsonPointer(this.readFile(target.file), target.pointer);
+    if (value === undefined) {
+      throw new Error(`Unresolvable $ref: ${path.relative(process.cwd(), target.file)}#${target.pointer}`);
+    }
+
+    this.inlining.push(key);
+    const result = this.bundle(value, target.file, parseJsonPointer(`#${target.pointer}`));
+    this.inlining.pop();
+
+    return result;
+  }
+}
@@ -6,57 +6,152 @@ export interface OpenAPIDocument {
     description?: string;
   };
   paths: Record<string, PathItem>;
+  // Requests the API sends to its consumers (OpenAPI 3.1), keyed by event name
+  webhooks?: Record<string, PathItem | Reference>;
   components?: {
     schemas?: Record<string, Schema>;
+    parameters?: Record<string, Parameter | Reference>;
+    responses?: Record<string, Response | Reference>;
+    requestBodies?: Record<string, RequestBody | Reference>;
+    headers?: Record<string, Header | Reference>;
+    examples?: Record<string, Example | Reference>;
+    callbacks?: Record<string, Callback | Reference>;
+    pathItems?: Record<string, PathItem | Reference>;
   };
 }
 
 export interface PathItem {
+  parameters?: Array<Parameter | Reference>;
   [method: string]: Operation | unknown;
 }
 
 export interface Operation {
   operationId?: string;
   summary?: string;
-  requestBody?: {
-    content?: {
-      'application/json'?: {
-        schema?: Schema;
-      };
-    };
-  };
-  responses?: Record<string, Response>;
+  tags?: string[];
+  parameters?: Array<Parameter | Reference>;
+  requestBody?: RequestBody | Reference;
+  responses?: Record<string, Response | Reference>;
+  callbacks?: Record<string, Callback | Reference>;
+}
+
+// Path items keyed by the runtime expression of the callback URL, e.g. `{$request.body#/callbackUrl}`
+export type Callback = Record<string, PathItem>;
+
+export type ParameterLocation = 'path' | 'query' | 'header' | 'cookie';
+
+export interface Parameter {
+  name: string;
+  in: ParameterLocation;
+  description?: string;
+  required?: boolean;
+  style?: string;
+  explode?: boolean;
+  schema?: Schema;
+  content?: Record<string, {
+    schema?: Schema;
+  }>;
+  example?: unknown;
+  examples?: Record<string, Example | Reference>;
+}
+
+// Response headers are described like parameters, without `name` and `in`
+export type Header = Omit<Parameter, 'name' | 'in'>;
+
+export interface Reference {
+  $ref: string;
+}
+
+export interface RequestBody {
+  description?: string;
+  required?: boolean;
+  content?: Record<string, MediaType>;
 }
 
 export interface Response {
   description?: string;
-  content?: {
-    'application/json'?: {
-      schema?: Schema;
-    };
-  };
+  headers?: Record<string, Header | Reference>;
+  content?: Record<string, MediaType>;
+}
+
+export interface MediaType {
+  schema?: Schema;
+  encoding?: Record<string, Encoding>;
+  example?: unknown;
+  examples?: Record<string, Example | Reference>;
+}
+
+export interface Example {
+  summary?: string;
+  value?: unknown;
+  externalValue?: string;
+}
+
+export interface Encoding {
+  contentType?: string;
 }
 
 export interface Schema {
-  type?: string;
+  type?: string | string[];
+  nullable?: boolean;
+  const?: unknown;
   properties?: Record<string, Schema>;
   required?: string[];
-  items?: Schema;
+  // `false` forbids items beyond `prefixItems`
+  items?: Schema | false;
+  prefixItems?: Schema[];
+  contains?: Schema;
+  minContains?: number;
+  maxContains?: number;
+  uniqueItems?: boolean;
   $ref?: string;
   allOf?: Schema[];
   oneOf?: Schema[];
   anyOf?: Schema[];
-  enum?: string[];
+  not?: Schema;
+  if?: Schema;
+  then?: Schema;
+  else?: Schema;
+  discriminator?: Discriminator;
+  enum?: unknown[];
   format?: string;
+  contentMediaType?: string;
+  contentEncoding?: string;
   pattern?: string;
   minLength?: number;
   maxLength?: number;
   minimum?: number;
   maximum?: number;
+  exclusiveMinimum?: boolean | number;
+  exclusiveMaximum?: boolean | number;
+  multipleOf?: number;
   minItems?: number;
   maxItems?: number;
+  minProperties?: number;
+  maxProperties?: number;
+  patternProperties?: Record<string, Schema>;
+  propertyNames?: Schema;
+  dependentRequired?: Record<string, string[]>;
   description?: string;
+  readOnly?: boolean;
+  writeOnly?: boolean;
+  default?: unknown;
+  example?: unknown;
+  examples?: unknown[];
   additionalProperties?: boolean | Schema;
+  'x-zod-refine'?: ZodRefinement | ZodRefinement[];
+  'x-zod-transform'?: string;
+  'x-zod-brand'?: string;
+  'x-zod-message'?: string;
+  'x-zod-import'?: string | string[];
+}
+
+// A refinement predicate in source form, e.g. `(value) => value.length % 2 === 0`
+export type ZodRefinement = string | { check: string; message?: string };
+
+export interface Discriminator {
+  propertyName: string;
+  mapping?: Record<string, string>;
 }
 
 export interface GeneratedFile {
@@ -70,14 +165,148 @@ export interface OperationSchema {
   summary: string;
   method: string;
   path: string;
-  request: Schema | null;
+  tags: string[];
+  parameters: Parameter[];
+  request: Record<string, MediaType>;
+  // Whether the request body is required (`requestBody.required`); bodies are optional by default
+  requestRequired?: boolean;
+  // Name under `components/requestBodies` when the request body is a shared one
+  requestRef?: string;
   responses: Record<string, {
     description: string;
-    schema: Schema;
+    content: Record<string, MediaType>;
+    // Declared headers as header parameters, with `$ref`s resolved
+    headers: Parameter[];
+    // Name under `components/responses` when the response is a shared one
+    ref?: string;
   }>;
 }
 
-export interface CLIOptions {
+// A webhook or callback operation: the API sends the request and the consumer answers it
+export interface WebhookSchema extends OperationSchema {
+  kind: 'webhook' | 'callback';
+  // Webhook or callback name as written in the spec
+  event: string;
+  // Module name within `_webhooks`, e.g. `newPet` or `createSubscription.onEvent`
+  name: string;
+}
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export interface Diagnostic {
+  severity: DiagnosticSeverity;
+  code: string;
+  message: string;
+  // JSON pointer into the bundled document
+  pointer: string;
+}
+
+// Library the schema modules are written for
+export type SchemaTarget = 'zod3' | 'zod4' | 'zod-mini' | 'valibot';
+
+export interface SchemaHookContext {
+  schema: Schema;
+  // Hooks return code for this target
+  target: SchemaTarget;
+  // Component being generated, empty for inline operation schemas
+  schemaName: string;
+  // Adds an import statement to the file the expression ends up in
+  addImport: (statement: string) => void;
+}
+
+export interface FormatHookContext extends SchemaHookContext {
+  format: string;
+  type: string;
+}
+
+export interface PropertyHookContext extends SchemaHookContext {
+  key: string;
+  parent: Schema;
+  required: boolean;
+}
+
+export interface FileHookContext {
+  addImport: (statement: string) => void;
+}
+
+// Hooks return a replacement expression (or file), or nothing to keep the generated one
+export interface ZodPlugin {
+  name: string;
+  onSchema?: (zod: string, context: SchemaHookContext) => string | void;
+  onFormat?: (zod: string, context: FormatHookContext) => string | void;
+  onProperty?: (zod: string, context: PropertyHookContext) => string | void;
+  onFile?: (file: GeneratedFile, context: FileHookContext) => GeneratedFile | void;
+}
+
+export interface OutputLayout {
+  // Directory holding component schemas (default: `_components`)
+  componentsDir?: string;
+  // File name of each operation's schema module, without extension (default: `schema`)
+  operationFile?: string;
+}
+
+export interface NamingOptions {
+  // Exported identifier of a component schema
+  schemaName?: (componentName: string) => string;
+  // File name of a component module, without extension
+  componentFile?: (componentName: string) => string;
+  // Directory of an operation's modules
+  operationDir?: (operationId: string) => string;
+  // Suffix of the inferred type exports (default: `Type`)
+  typeSuffix?: string;
+}
+
+// How `format`s map to schemas, for formats with more than one sensible representation
+export interface FormatOptions {
+  // `int64` integers as numbers (default), bigints, or decimal strings that keep every digit
+  int64?: 'number' | 'bigint' | 'string';
+  // `date` and `date-time` strings kept as strings (default) or turned into `Date` objects
+  dates?: 'string' | 'Date';
+  // Binary values as `Blob`s (default) or `Uint8Array`s, e.g. Node.js buffers
+  binary?: 'Blob' | 'Uint8Array';
+}
+
+// Values arriving as text, whose numbers and booleans are coerced: none, parameters (default),
+// or parameters and form request bodies
+export type CoerceMode = 'none' | 'parameters' | 'forms';
+
+export interface GeneratorOptions {
+  // Validation library of the generated schemas (default: `zod3`)
+  target?: SchemaTarget;
+  formats?: FormatOptions;
+  coerce?: CoerceMode;
+  jsonMediaTypes?: string[];
+  client?: boolean;
+  server?: boolean;
+  mocks?: boolean;
+  msw?: boolean;
+  tests?: boolean;
+  // Emit `components/responses` and `components/requestBodies` as modules that operations import
+  sharedComponents?: boolean;
+  layout?: OutputLayout;
+  naming?: NamingOptions;
+  // Expressions for the target replacing generated ones, keyed by component name or JSON pointer
+  overrides?: Record<string, string>;
+  // Glob patterns matched against component names and operationIds, or with a
+  // `tag:`, `path:`, `method:` or `operationId:` prefix against operations only
+  include?: string[];
+  exclude?: string[];
+  plugins?: ZodPlugin[];
+}
+
+// Contents of `openapi-zod.config.*`
+export interface GeneratorConfig extends GeneratorOptions {
+  file?: string;
+  output?: string;
+}
+
+export interface CLIOptions extends GeneratorOptions {
   file: string;
   output: string;
-}
\ No newline at end of file
+  config?: string;
+  watch?: boolean;
+  check?: boolean;
+  format?: 'text' | 'json';
+  strict?: boolean;
+  report?: boolean;
+}
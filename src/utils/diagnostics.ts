@@ -0,0 +1,35 @@
+import { Diagnostic, DiagnosticSeverity } from '../types.js';
+import { formatJsonPointer } from './jsonPointer.js';
+
+// Problems found while generating, reported alongside the validator's. Schemas are located by
+// identity, so the converters can report the object they are looking at and still get a pointer.
+export class DiagnosticCollector {
+  private entries = new Map<string, Diagnostic>();
+  private pointers = new WeakMap<object, string>();
+
+  constructor(document: unknown) {
+    this.index(document, []);
+  }
+
+  get diagnostics(): Diagnostic[] {
+    return Array.from(this.entries.values());
+  }
+
+  // `location` is a pointer, or an object of the document
+  report(severity: DiagnosticSeverity, code: string, message: string, location: string | object): void {
+    const pointer = typeof location === 'string' ? location : this.pointers.get(location) ?? '#';
+    // Several converters see the same schema, so each problem is kept once
+    this.entries.set(`${code}\n${pointer}\n${message}`, { severity, code, message, pointer });
+  }
+
+  private index(node: unknown, segments: string[]): void {
+    // Objects reached twice keep their first pointer
+    if (!node || typeof node !== 'object' || this.pointers.has(node)) return;
+    this.pointers.set(node, `#${formatJsonPointer(segments)}`);
+    if (Array.isArray(node)) {
+      node.forEach((item, index) => this.index(item, [...segments, String(index)]));
+    } else {
+      Object.entries(node).forEach(([key, value]) => this.index(value, [...segments, key]));
+    }
+  }
+}
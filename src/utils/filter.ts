@@ -0,0 +1,129 @@
+import { OpenAPIDocument, Operation, PathItem, Reference, Schema } from '../types.js';
+import { matchesGlob } from './helpers.js';
+import { parseJsonPointer, resolveJsonPointer, resolveReference } from './jsonPointer.js';
+import { HTTP_METHODS } from './operations.js';
+import { forEachChild, getReference, NodeKind } from './traversal.js';
+
+// Prefixed patterns select operations by another property; bare ones match operationIds and component names
+const SELECTOR_KINDS = ['tag', 'path', 'method', 'operationId'] as const;
+type SelectorKind = typeof SELECTOR_KINDS[number] | 'name';
+
+export interface FilterOptions {
+  include?: string[];
+  exclude?: string[];
+}
+
+export interface OperationTarget extends Pick<Operation, 'operationId' | 'tags'> {
+  path: string;
+  method: string;
+}
+
+function groupPatterns(patterns: string[] = []): Map<SelectorKind, string[]> {
+  const groups = new Map<SelectorKind, string[]>();
+  patterns.forEach(pattern => {
+    const separator = pattern.indexOf(':');
+    const prefix = SELECTOR_KINDS.find(kind => separator > 0 && pattern.slice(0, separator) === kind);
+    const kind: SelectorKind = prefix ?? 'name';
+    groups.set(kind, [...(groups.get(kind) || []), prefix ? pattern.slice(separator + 1) : pattern]);
+  });
+  return groups;
+}
+
+function matchesOperation(target: OperationTarget, kind: SelectorKind, patterns: string[]): boolean {
+  switch (kind) {
+    case 'tag':
+      return (target.tags || []).some(tag => matchesGlob(tag, patterns));
+    case 'path':
+      return matchesGlob(target.path, patterns);
+    case 'method':
+      return matchesGlob(target.method.toLowerCase(), patterns.map(pattern => pattern.toLowerCase()));
+    default:
+      return target.operationId !== undefined && matchesGlob(target.operationId, patterns);
+  }
+}
+
+export function isSelected(name: string, options: FilterOptions): boolean {
+  const include = groupPatterns(options.include).get('name');
+  const exclude = groupPatterns(options.exclude).get('name');
+  if (include && !matchesGlob(name, include)) return false;
+  return !(exclude && matchesGlob(name, exclude));
+}
+
+export function isOperationSelected(target: OperationTarget, options: FilterOptions): boolean {
+  // Each kind of include pattern must match; any exclude pattern drops the operation
+  const included = Array.from(groupPatterns(options.include))
+    .every(([kind, patterns]) => matchesOperation(target, kind, patterns));
+  return included && !Array.from(groupPatterns(options.exclude))
+    .some(([kind, patterns]) => matchesOperation(target, kind, patterns));
+}
+
+// Collects referenced components, following local refs through other components and parameters
+function collectSchemaRefs(
+  value: unknown,
+  document: OpenAPIDocument,
+  refs: Set<string>,
+  visited: Set<string>,
+  kind: NodeKind = 'keywords'
+): void {
+  const ref = getReference(value, kind);
+  if (ref?.startsWith('#') && !visited.has(ref)) {
+    visited.add(ref);
+    const segments = parseJsonPointer(ref);
+    if (segments[0] === 'components' && segments[1] === 'schemas' && segments.length === 3) {
+      refs.add(segments[2]);
+    }
+    collectSchemaRefs(resolveJsonPointer(document, ref), document, refs, visited);
+  }
+  forEachChild(value, kind, (child, _key, childKind) => collectSchemaRefs(child, document, refs, visited, childKind));
+}
+
+function filterPathItems(
+  pathItems: Record<string, PathItem | Reference>,
+  document: OpenAPIDocument,
+  options: FilterOptions
+): Record<string, PathItem> {
+  // Keep selected operations; path-level keys such as `parameters` stay with any operation left
+  const kept: Record<string, PathItem> = {};
+  Object.entries(pathItems).forEach(([pathName, entry]) => {
+    const pathItem = resolveReference<PathItem>(document, entry);
+    const filtered = Object.fromEntries(Object.entries(pathItem || {}).filter(([key, operation]) => {
+      if (!HTTP_METHODS.includes(key)) return true;
+      return isOperationSelected({ ...(operation as Operation), path: pathName, method: key }, options);
+    })) as PathItem;
+    if (Object.keys(filtered).some(key => HTTP_METHODS.includes(key))) {
+      kept[pathName] = filtered;
+    }
+  });
+  return kept;
+}
+
+export function filterDocument(document: OpenAPIDocument, options: FilterOptions): OpenAPIDocument {
+  if (!options.include?.length && !options.exclude?.length) return document;
+
+  // Webhooks are selected like paths, with their name standing in for the path
+  const paths = filterPathItems(document.paths || {}, document, options);
+  const webhooks = filterPathItems(document.webhooks || {}, document, options);
+
+  // Components are exactly those the kept operations reach, plus the ones named by bare include patterns
+  const schemas = document.components?.schemas || {};
+  const kept = new Set<string>();
+  const visited = new Set<string>();
+  collectSchemaRefs({ paths, webhooks }, document, kept, visited);
+  if (groupPatterns(options.include).has('name')) {
+    Object.keys(schemas).filter(name => isSelected(name, options)).forEach(name => {
+      kept.add(name);
+      collectSchemaRefs(schemas[name], document, kept, visited);
+    });
+  }
+
+  const filteredSchemas: Record<string, Schema> = Object.fromEntries(
+    Object.entries(schemas).filter(([name]) => kept.has(name))
+  );
+
+  return {
+    ...document,
+    paths,
+    ...(document.webhooks ? { webhooks } : {}),
+    components: { ...document.components, schemas: filteredSchemas }
+  };
+}
@@ -0,0 +1,49 @@
+import { CoerceMode, FormatOptions } from '../types.js';
+import { StringFormat } from '../emitters/schemaNode.js';
+
+// Formats every target validates with a string schema of its own
+export const STRING_FORMATS: Record<string, StringFormat> = {
+  'date-time': 'datetime',
+  date: 'date',
+  email: 'email',
+  uuid: 'uuid',
+  uri: 'url',
+  url: 'url',
+  ipv4: 'ipv4',
+  ipv6: 'ipv6',
+  byte: 'base64'
+};
+
+// Formats some targets have no schema for, checked with a pattern instead
+export const FORMAT_PATTERNS: Record<string, string> = {
+  // RFC 3339 full-time; the offset may be left out
+  time: '^([01]\\d|2[0-3]):[0-5]\\d:([0-5]\\d|60)(\\.\\d+)?([Zz]|[+-]([01]\\d|2[0-3]):[0-5]\\d)?$',
+  // ISO 8601 duration, e.g. P1DT12H
+  duration: '^P(?!$)(\\d+Y)?(\\d+M)?(\\d+W)?(\\d+D)?(T(?=\\d)(\\d+H)?(\\d+M)?(\\d+(\\.\\d+)?S)?)?$',
+  hostname: '^(?=.{1,253}\\.?$)[A-Za-z0-9]([A-Za-z0-9-]{0,61}[A-Za-z0-9])?(\\.[A-Za-z0-9]([A-Za-z0-9-]{0,61}[A-Za-z0-9])?)*\\.?$'
+};
+
+// Values sized number formats can hold, checked unless the spec sets a bound of its own
+export const FORMAT_RANGES: Record<string, [number, number]> = {
+  int32: [-2147483648, 2147483647],
+  float: [-3.4028234663852886e38, 3.4028234663852886e38]
+};
+
+// Decimal integers, which `int64` values are kept as in string mode
+export const INTEGER_PATTERN = '^-?\\d+$';
+
+export const INT64_MODES: NonNullable<FormatOptions['int64']>[] = ['number', 'bigint', 'string'];
+export const DATE_MODES: NonNullable<FormatOptions['dates']>[] = ['string', 'Date'];
+export const BINARY_MODES: NonNullable<FormatOptions['binary']>[] = ['Blob', 'Uint8Array'];
+export const COERCE_MODES: CoerceMode[] = ['none', 'parameters', 'forms'];
+export const DEFAULT_COERCE: CoerceMode = 'parameters';
+
+export function validateFormatOptions(formats: FormatOptions = {}): void {
+  const choices = { int64: INT64_MODES, dates: DATE_MODES, binary: BINARY_MODES } as const;
+  (Object.keys(choices) as Array<keyof typeof choices>).forEach(key => {
+    const value = formats[key];
+    if (value !== undefined && !(choices[key] as string[]).includes(value)) {
+      throw new Error(`Unknown formats.${key} ${value}; expected one of ${choices[key].join(', ')}`);
+    }
+  });
+}
@@ -1,4 +1,5 @@
 import { Schema } from '../types.js';
+import { getRefName } from './jsonPointer.js';
 
 export function generateDescription(name: string): string {
   // Generate human-readable description from schema name
@@ -7,57 +8,139 @@ export function generateDescription(name: string): string {
   return description.charAt(0).toUpperCase() + description.slice(1);
 }
 
-export function getPropertyType(propSchema: Schema): string {
-  if (propSchema.$ref) {
-    return propSchema.$ref.split('/').pop()!;
+export function toPascalCase(name: string): string {
+  // Split on separators and camelCase boundaries, e.g. `address-code.create` -> `AddressCodeCreate`
+  const words = name.match(/[A-Z]+(?![a-z])|[A-Z]?[a-z]+|[0-9]+/g) || [];
+  const pascal = words.map(word => word.charAt(0).toUpperCase() + word.slice(1)).join('');
+  return /^[0-9]/.test(pascal) ? `_${pascal}` : pascal;
+}
+
+export function toCamelCase(name: string): string {
+  const pascal = toPascalCase(name);
+  return pascal.charAt(0).toLowerCase() + pascal.slice(1);
+}
+
+// ECMAScript reserved words, `z` and `v`, which would shadow the library import, and the globals
+// generated code calls, e.g. `new Date(value)` or `z.instanceof(Blob)`
+const RESERVED_WORDS = new Set([
+  'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do', 'else',
+  'enum', 'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'import', 'in', 'instanceof',
+  'new', 'null', 'return', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'var', 'void',
+  'while', 'with', 'yield', 'let', 'static', 'implements', 'interface', 'package', 'private', 'protected',
+  'public', 'await', 'arguments', 'eval', 'undefined', 'NaN', 'Infinity', 'z', 'v',
+  'Date', 'Blob', 'Uint8Array', 'String', 'Number', 'Boolean', 'BigInt', 'Error', 'Array', 'Object', 'JSON', 'RegExp'
+]);
+
+const IDENTIFIER = /^[\p{L}_$][\p{L}\p{N}_$]*$/u;
+
+export function isIdentifier(name: string): boolean {
+  return IDENTIFIER.test(name);
+}
+
+export function toSafeIdentifier(name: string): string {
+  let identifier = name;
+  if (!isIdentifier(identifier)) {
+    // Drop invalid characters and capitalize what follows them, e.g. `User.Profile` -> `UserProfile`
+    const segments = name.split(/[^\p{L}\p{N}_$]+/u).filter(Boolean);
+    identifier = segments
+      .map((segment, index) => index === 0 ? segment : segment.charAt(0).toUpperCase() + segment.slice(1))
+      .join('') || '_';
+    if (/^\p{N}/u.test(identifier)) identifier = `_${identifier}`;
   }
-  if (propSchema.type === 'string') return 'string';
-  if (propSchema.type === 'number') return 'number';
-  if (propSchema.type === 'integer') return 'number';
-  if (propSchema.type === 'boolean') return 'boolean';
-  if (propSchema.type === 'array') {
-    const itemType = propSchema.items ? getPropertyType(propSchema.items) : 'any';
-    return `${itemType}[]`;
+  return RESERVED_WORDS.has(identifier) ? `${identifier}_` : identifier;
+}
+
+export function toSafeFileName(name: string): string {
+  // Path separators and characters Windows rejects would break the output layout
+  const fileName = name.replace(/[\\/:*?"<>|\s\x00-\x1f]+/g, '_');
+  return fileName === '' || fileName === '.' || fileName === '..' ? '_' : fileName;
+}
+
+export function formatPropertyKey(key: string): string {
+  // A literal `__proto__` key would set the prototype instead of defining a property
+  if (key === '__proto__') return `[${JSON.stringify(key)}]`;
+  // Quote object keys that are not valid identifiers
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+export function formatRegex(pattern: string): string {
+  // `source` escapes slashes and line terminators so the literal stays intact
+  try {
+    return `/${new RegExp(pattern).source}/`;
+  } catch {
+    return `new RegExp(${JSON.stringify(pattern)})`;
   }
-  if (propSchema.type === 'object') return 'object';
-  return 'any';
 }
 
-export function isComponentSchema(schema: Schema | undefined): boolean {
-  // Check if a schema is defined in components/schemas
-  if (!schema || !schema.$ref) return false;
-  return schema.$ref.startsWith('#/components/schemas/');
+export function escapeComment(text: string): string {
+  // Keep spec text from closing the surrounding JSDoc block
+  return text.replace(/\*\//g, '*\\/');
 }
 
-export function findComponentReferences(schema: Schema | undefined, references: Set<string>): void {
-  if (!schema) return;
+export function matchesGlob(value: string, patterns: string[]): boolean {
+  // `*` matches any run of characters, everything else literally
+  return patterns.some(pattern => {
+    const source = pattern
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\/]/g, '\\$&'))
+      .join('.*');
+    return new RegExp(`^${source}$`).test(value);
+  });
+}
+
+const NUMBER_FORMATS = ['int32', 'int64', 'float', 'double'];
+
+export function getSchemaTypes(schema: Schema): string[] {
+  if (Array.isArray(schema.type)) return schema.type;
+  if (schema.type) return [schema.type];
   
-  if (isComponentSchema(schema)) {
-    const refName = schema.$ref!.split('/').pop()!;
-    references.add(refName);
-    // Don't recurse into component schemas
-    return;
+  // Infer the type from type-specific keywords when `type` is omitted
+  if (schema.properties || schema.additionalProperties !== undefined || schema.required || schema.patternProperties
+    || schema.propertyNames || schema.minProperties !== undefined || schema.maxProperties !== undefined) {
+    return ['object'];
   }
-  
-  if (schema.allOf) {
-    schema.allOf.forEach(s => findComponentReferences(s, references));
+  if (schema.items !== undefined || schema.prefixItems || schema.contains || schema.uniqueItems
+    || schema.minItems !== undefined || schema.maxItems !== undefined) {
+    return ['array'];
   }
-  
-  if (schema.oneOf) {
-    schema.oneOf.forEach(s => findComponentReferences(s, references));
+  if (schema.format && NUMBER_FORMATS.includes(schema.format)) {
+    return [schema.format.startsWith('int') ? 'integer' : 'number'];
   }
-  
-  if (schema.anyOf) {
-    schema.anyOf.forEach(s => findComponentReferences(s, references));
+  if (schema.enum || schema.format || schema.pattern || schema.minLength !== undefined || schema.maxLength !== undefined) {
+    return ['string'];
   }
-  
-  if (schema.properties) {
-    Object.values(schema.properties).forEach(prop => {
-      findComponentReferences(prop, references);
-    });
+  if (schema.minimum !== undefined || schema.maximum !== undefined || schema.multipleOf !== undefined
+    || schema.exclusiveMinimum !== undefined || schema.exclusiveMaximum !== undefined) {
+    return ['number'];
   }
-  
-  if (schema.items) {
-    findComponentReferences(schema.items, references);
+  return [];
+}
+
+export function getPropertyType(propSchema: Schema): string {
+  if (propSchema.$ref) {
+    return getRefName(propSchema.$ref);
+  }
+  const types = getSchemaTypes(propSchema);
+  if (types.length > 1) {
+    return types.map(type => getPropertyType({ ...propSchema, type })).join('|');
   }
+  const type = types[0];
+  let propType = 'any';
+  if (type === 'string') propType = 'string';
+  if (type === 'number') propType = 'number';
+  if (type === 'integer') propType = 'number';
+  if (type === 'boolean') propType = 'boolean';
+  if (type === 'null') propType = 'null';
+  if (type === 'array') {
+    const itemType = propSchema.items ? getPropertyType(propSchema.items) : 'any';
+    propType = `${itemType}[]`;
+  }
+  if (type === 'object') propType = 'object';
+  return propSchema.nullable ? `${propType}|null` : propType;
+}
+
+export function isComponentSchema(schema: Schema | undefined): boolean {
+  // Check if a schema is defined in components/schemas
+  if (!schema || !schema.$ref) return false;
+  return schema.$ref.startsWith('#/components/schemas/');
 }
\ No newline at end of file
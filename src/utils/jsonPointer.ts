@@ -0,0 +1,57 @@
+export function decodePointerSegment(segment: string): string {
+  // `~1` must be decoded before `~0` so that `~01` becomes `~1`
+  return segment.replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+export function encodePointerSegment(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+export function parseJsonPointer(pointer: string): string[] {
+  // Accept both plain pointers and URI fragments (`#/a/b%20c`)
+  const raw = pointer.startsWith('#') ? decodeURIComponent(pointer.slice(1)) : pointer;
+  if (raw === '') return [];
+  if (!raw.startsWith('/')) {
+    throw new Error(`Invalid JSON pointer: ${pointer}`);
+  }
+  return raw.slice(1).split('/').map(decodePointerSegment);
+}
+
+export function formatJsonPointer(segments: string[]): string {
+  return segments.map(segment => `/${encodePointerSegment(segment)}`).join('');
+}
+
+export function resolveJsonPointer(document: unknown, pointer: string): unknown {
+  let current: unknown = document;
+  for (const segment of parseJsonPointer(pointer)) {
+    if (current === null || typeof current !== 'object' || !(segment in current)) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+export function getRefName(ref: string): string {
+  // Last segment of the pointer, with URI and JSON pointer escaping undone
+  const fragment = ref.slice(ref.indexOf('#') + 1);
+  const segment = fragment.split('/').pop() ?? '';
+  try {
+    return decodePointerSegment(decodeURIComponent(segment));
+  } catch {
+    return decodePointerSegment(segment);
+  }
+}
+
+// Follows local `$ref` chains, such as a shared response pointing at another one
+export function resolveReference<T>(document: unknown, value: T | { $ref: string } | undefined): T | undefined {
+  const seen = new Set<string>();
+  let current: unknown = value;
+  while (current && typeof current === 'object' && typeof (current as { $ref?: unknown }).$ref === 'string') {
+    const ref = (current as { $ref: string }).$ref;
+    if (!ref.startsWith('#') || seen.has(ref)) return undefined;
+    seen.add(ref);
+    current = resolveJsonPointer(document, ref);
+  }
+  return current as T | undefined;
+}
@@ -0,0 +1,62 @@
+import { matchesGlob } from './helpers.js';
+
+export const DEFAULT_JSON_MEDIA_TYPES = ['application/json', '*/*+json'];
+
+const FORM_MEDIA_TYPES = ['multipart/form-data', 'application/x-www-form-urlencoded'];
+
+const MEDIA_TYPE_SUFFIXES: Record<string, string> = {
+  'application/json': '',
+  'multipart/form-data': 'multipart',
+  'application/x-www-form-urlencoded': 'form',
+  'text/plain': 'text',
+  'application/octet-stream': 'binary',
+  '*/*': 'any'
+};
+
+export function normalizeMediaType(mediaType: string): string {
+  // Drop parameters such as `; charset=utf-8`
+  return mediaType.split(';')[0].trim().toLowerCase();
+}
+
+export function isJsonMediaType(mediaType: string, patterns: string[] = DEFAULT_JSON_MEDIA_TYPES): boolean {
+  return matchesGlob(normalizeMediaType(mediaType), patterns.map(pattern => pattern.toLowerCase()));
+}
+
+export function isFormMediaType(mediaType: string): boolean {
+  return FORM_MEDIA_TYPES.includes(normalizeMediaType(mediaType));
+}
+
+export function isTextMediaType(mediaType: string): boolean {
+  return normalizeMediaType(mediaType).startsWith('text/');
+}
+
+export function getMediaTypeSuffix(mediaType: string): string {
+  const normalized = normalizeMediaType(mediaType);
+  if (normalized in MEDIA_TYPE_SUFFIXES) return MEDIA_TYPE_SUFFIXES[normalized];
+  
+  // Wildcard subtypes fall back to the top-level type (e.g. `image/*` -> `image`)
+  const [type, subtype = ''] = normalized.split('/');
+  const name = subtype === '*' ? type : subtype.replace(/^x-/, '');
+  const words = name.split(/[^a-z0-9]+/).filter(Boolean);
+  return words
+    .map((word, index) => index === 0 ? word : word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+}
+
+export function getContentExportNames(mediaTypes: string[], baseName: string): Record<string, string> {
+  // `application/json` keeps the plain name, other media types get a suffix
+  const names: Record<string, string> = {};
+  const usedNames = new Set<string>();
+  
+  mediaTypes.forEach(mediaType => {
+    const suffix = getMediaTypeSuffix(mediaType);
+    let name = suffix ? `${baseName}_${suffix}` : baseName;
+    for (let index = 2; usedNames.has(name); index++) {
+      name = `${baseName}_${suffix}${index}`;
+    }
+    usedNames.add(name);
+    names[mediaType] = name;
+  });
+  
+  return names;
+}
@@ -0,0 +1,191 @@
+import { GeneratorOptions, NamingOptions } from '../types.js';
+import { toPascalCase, toSafeIdentifier, toSafeFileName } from './helpers.js';
+
+export const DEFAULT_COMPONENTS_DIR = '_components';
+export const DEFAULT_OPERATION_FILE = 'schema';
+export const DEFAULT_TYPE_SUFFIX = 'Type';
+export const WEBHOOKS_DIR = '_webhooks';
+
+// Top-level names of the generated client, server and mock runtimes
+const RUNTIME_IDENTIFIERS = [
+  'ClientOptions', 'UnexpectedResponseError', 'RequestInput', 'RouteDefinition', 'ValidationOptions',
+  'ValidationResult', 'ValidationIssue', 'ValidationError', 'ValidatedRequest', 'MockOptions',
+  'MediaDefinition', 'OperationDefinition', 'OperationInput', 'BodyFormat', 'JsonSchema', 'Fetch'
+];
+
+function assignUnique(
+  names: string[],
+  derive: (name: string) => string,
+  reserved: string[] = [],
+  caseInsensitive = false
+): Map<string, string> {
+  const key = (value: string) => caseInsensitive ? value.toLowerCase() : value;
+  const used = new Set(reserved.map(key));
+  const assigned = new Map<string, string>();
+  const unique = Array.from(new Set(names));
+
+  // Names that need no change claim their spelling first; the rest follow in sorted order,
+  // so the mapping does not depend on the order of the spec
+  const ordered = [
+    ...unique.filter(name => derive(name) === name),
+    ...unique.filter(name => derive(name) !== name).sort()
+  ];
+  ordered.forEach(name => {
+    const base = derive(name);
+    let candidate = base;
+    for (let index = 2; used.has(key(candidate)); index++) {
+      candidate = `${base}${index}`;
+    }
+    used.add(key(candidate));
+    assigned.set(name, candidate);
+  });
+
+  return assigned;
+}
+
+export class Naming {
+  readonly componentsDir: string;
+  readonly operationFile: string;
+  private naming: NamingOptions;
+  private schemaNames: Map<string, string>;
+  private inputNames: Map<string, string>;
+  private componentFiles: Map<string, string>;
+  private mockNames: Map<string, string>;
+  private operationDirs: Map<string, string>;
+  private webhookFiles: Map<string, string>;
+  private sharedNames: Map<string, string>;
+  private sharedFiles: Map<string, string>;
+  private namespaces: Map<string, string>;
+
+  constructor(
+    options: GeneratorOptions = {},
+    componentNames: string[] = [],
+    operationIds: string[] = [],
+    webhookNames: string[] = [],
+    sharedComponents: string[] = []
+  ) {
+    this.componentsDir = options.layout?.componentsDir || DEFAULT_COMPONENTS_DIR;
+    this.operationFile = options.layout?.operationFile || DEFAULT_OPERATION_FILE;
+    this.naming = options.naming || {};
+
+    this.schemaNames = assignUnique(componentNames, name => this.deriveSchemaName(name));
+    this.inputNames = assignUnique(componentNames, name => `${this.schemaName(name)}Input`, Array.from(this.schemaNames.values()));
+    this.componentFiles = assignUnique(componentNames, name => this.deriveComponentFile(name), [], true);
+    this.sharedNames = assignUnique(
+      sharedComponents,
+      key => this.deriveSharedName(key),
+      [...this.schemaNames.values(), ...this.inputNames.values()]
+    );
+    this.sharedFiles = assignUnique(sharedComponents, key => toSafeFileName(this.sharedName(key)), Array.from(this.componentFiles.values()), true);
+    this.mockNames = assignUnique(componentNames, name => `mock${toPascalCase(name)}`);
+    this.operationDirs = assignUnique(
+      operationIds,
+      operationId => this.deriveOperationDir(operationId),
+      [this.componentsDir, '_server', '_mocks', '_tests', WEBHOOKS_DIR],
+      true
+    );
+    this.webhookFiles = assignUnique(webhookNames, name => toSafeFileName(name), [], true);
+    this.namespaces = assignUnique(operationIds, operationId => toPascalCase(operationId), RUNTIME_IDENTIFIERS);
+  }
+
+  schemaName(componentName: string): string {
+    return this.schemaNames.get(componentName) ?? this.deriveSchemaName(componentName);
+  }
+
+  // Request-side variant of a component with readOnly/writeOnly properties, e.g. `UserInput`
+  inputName(componentName: string): string {
+    return this.inputNames.get(componentName) ?? `${this.schemaName(componentName)}Input`;
+  }
+
+  // Original component name of a generated identifier
+  originalName(schemaName: string): string | undefined {
+    return Array.from(this.schemaNames.entries()).find(([, identifier]) => identifier === schemaName)?.[0];
+  }
+
+  typeName(schemaName: string): string {
+    return `${schemaName}${this.naming.typeSuffix ?? DEFAULT_TYPE_SUFFIX}`;
+  }
+
+  responseName(statusCode: string): string {
+    // `default` and ranges such as `4XX` get a consistent spelling
+    return `Response${statusCode === 'default' ? 'Default' : statusCode.toUpperCase().replace(/[^0-9A-Z]/g, '')}`;
+  }
+
+  componentFile(componentName: string): string {
+    return this.componentFiles.get(componentName) ?? this.deriveComponentFile(componentName);
+  }
+
+  // Module of a shared response or request body, keyed by section, e.g. `responses/NotFound` → `NotFoundResponse`
+  sharedName(key: string): string {
+    return this.sharedNames.get(key) ?? this.deriveSharedName(key);
+  }
+
+  sharedFile(key: string): string {
+    return this.sharedFiles.get(key) ?? toSafeFileName(this.sharedName(key));
+  }
+
+  sharedImport(key: string): string {
+    return `../${this.componentsDir}/${this.sharedFile(key)}.js`;
+  }
+
+  mockName(componentName: string): string {
+    return this.mockNames.get(componentName) ?? `mock${toPascalCase(componentName)}`;
+  }
+
+  operationDir(operationId: string): string {
+    return this.operationDirs.get(operationId) ?? this.deriveOperationDir(operationId);
+  }
+
+  // Module of a webhook or callback within `_webhooks`
+  webhookFile(name: string): string {
+    return this.webhookFiles.get(name) ?? toSafeFileName(name);
+  }
+
+  // Namespace an operation's schema module is imported under, e.g. `AddressCodeCreate`
+  operationNamespace(operationId: string): string {
+    return this.namespaces.get(operationId) ?? toPascalCase(operationId);
+  }
+
+  operationMethod(operationId: string): string {
+    const namespace = this.operationNamespace(operationId);
+    return namespace.charAt(0).toLowerCase() + namespace.slice(1);
+  }
+
+  // Import path of a component module, seen from a sibling component or from another top-level directory
+  componentImport(componentName: string, fromComponents = false): string {
+    const file = `${this.componentFile(componentName)}.js`;
+    return fromComponents ? `./${file}` : `../${this.componentsDir}/${file}`;
+  }
+
+  // Import path of an operation's schema module, seen from the output root or a top-level directory
+  operationImport(operationId: string, fromRoot = false, fileName = this.operationFile): string {
+    return `${fromRoot ? '.' : '..'}/${this.operationDir(operationId)}/${fileName}.js`;
+  }
+
+  private deriveSchemaName(componentName: string): string {
+    return this.avoidOperationExports(toSafeIdentifier(this.naming.schemaName ? this.naming.schemaName(componentName) : componentName));
+  }
+
+  private deriveSharedName(key: string): string {
+    const [section, ...rest] = key.split('/');
+    const suffix = section === 'responses' ? 'Response' : 'RequestBody';
+    const identifier = toSafeIdentifier(rest.join('/'));
+    return this.avoidOperationExports(identifier.endsWith(suffix) ? identifier : `${identifier}${suffix}`);
+  }
+
+  private avoidOperationExports(identifier: string): string {
+    // Component imports must not clash with the exports of operation modules
+    const suffix = this.naming.typeSuffix ?? DEFAULT_TYPE_SUFFIX;
+    const operationExport = new RegExp(`^(PathParams|QueryParams|Headers|Cookies|Request|Response(?:[0-9][0-9X]{2}|Default)(?:Headers)?)(_\\w+)?(${suffix})?$`);
+    const aggregateExport = new RegExp(`^(Responses|(Success|Error)Response(${suffix})?|selectResponse)$`);
+    return operationExport.test(identifier) || aggregateExport.test(identifier) ? `${identifier}_` : identifier;
+  }
+
+  private deriveComponentFile(componentName: string): string {
+    return toSafeFileName(this.naming.componentFile ? this.naming.componentFile(componentName) : this.deriveSchemaName(componentName));
+  }
+
+  private deriveOperationDir(operationId: string): string {
+    return toSafeFileName(this.naming.operationDir ? this.naming.operationDir(operationId) : operationId);
+  }
+}
@@ -0,0 +1,61 @@
+import { OpenAPIDocument, Operation, PathItem } from '../types.js';
+import { toPascalCase } from './helpers.js';
+
+// Keys of a path item that hold operations; `parameters`, `summary`, `servers` and the like do not
+export const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+export interface OperationEntry {
+  path: string;
+  method: string;
+  pathItem: PathItem;
+  operation: Operation;
+  // Declared id, or one derived from method and path; duplicates get a numeric suffix
+  operationId: string;
+}
+
+export function getPathItemOperations(pathItem: PathItem): Array<[string, Operation]> {
+  return Object.entries(pathItem)
+    .filter(([method, operation]) => HTTP_METHODS.includes(method) && operation && typeof operation === 'object')
+    .map(([method, operation]) => [method, operation as Operation]);
+}
+
+// e.g. `GET /users/{id}/posts` → `getUsersByIdPosts`, `GET /` → `getRoot`
+export function synthesizeOperationId(method: string, path: string): string {
+  const words = path.split('/').filter(Boolean).map(segment => {
+    const parameter = /^\{(.+)\}$/.exec(segment);
+    return (parameter ? `By${toPascalCase(parameter[1])}` : toPascalCase(segment)).replace(/^_/, '');
+  });
+  return `${method.toLowerCase()}${words.length > 0 ? words.join('') : 'Root'}`;
+}
+
+export function listOperations(paths: Record<string, PathItem> = {}): OperationEntry[] {
+  const entries = Object.entries(paths).flatMap(([path, pathItem]) =>
+    getPathItemOperations(pathItem).map(([method, operation]) => ({ path, method, pathItem, operation })));
+
+  // Declared ids are reserved up front, so derived and renamed ids never take one;
+  // duplicates are numbered in document order
+  const declared = new Set(entries.map(({ operation }) => operation.operationId).filter(Boolean));
+  const used = new Set<string>();
+
+  return entries.map(entry => {
+    const base = entry.operation.operationId || synthesizeOperationId(entry.method, entry.path);
+    const isTaken = (candidate: string) => used.has(candidate) || (candidate !== entry.operation.operationId && declared.has(candidate));
+    let operationId = base;
+    for (let index = 2; isTaken(operationId); index++) {
+      operationId = `${base}${index}`;
+    }
+    used.add(operationId);
+    return { ...entry, operationId };
+  });
+}
+
+// Copy of the document in which every operation carries its final operationId
+export function assignOperationIds(document: OpenAPIDocument): OpenAPIDocument {
+  const paths: Record<string, PathItem> = Object.fromEntries(
+    Object.entries(document.paths || {}).map(([path, pathItem]) => [path, { ...pathItem }])
+  );
+  listOperations(document.paths).forEach(({ path, method, operation, operationId }) => {
+    paths[path][method] = { ...operation, operationId };
+  });
+  return { ...document, paths };
+}
@@ -0,0 +1,24 @@
+import { OpenAPIDocument, Schema } from '../types.js';
+import { DiagnosticCollector } from './diagnostics.js';
+import { formatJsonPointer, resolveJsonPointer } from './jsonPointer.js';
+
+export function resolveOverrides(
+  document: OpenAPIDocument,
+  overrides: Record<string, string> = {},
+  diagnostics?: DiagnosticCollector
+): Map<Schema, string> {
+  // Keys are component names or JSON pointers into the (bundled) document
+  const resolved = new Map<Schema, string>();
+
+  Object.entries(overrides).forEach(([key, zod]) => {
+    const pointer = key.startsWith('#') ? key : `#${formatJsonPointer(['components', 'schemas', key])}`;
+    const target = resolveJsonPointer(document, pointer);
+    if (!target || typeof target !== 'object') {
+      diagnostics?.report('warning', 'unknown-override', `Override target ${key} does not exist, ignoring it`, pointer);
+      return;
+    }
+    resolved.set(target as Schema, zod);
+  });
+
+  return resolved;
+}
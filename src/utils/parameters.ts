@@ -0,0 +1,55 @@
+import { Parameter, ParameterLocation, Reference } from '../types.js';
+import { getRefName } from './jsonPointer.js';
+
+export const PARAMETER_LOCATIONS: ParameterLocation[] = ['path', 'query', 'header', 'cookie'];
+
+// Headers that OpenAPI says must be ignored when declared as parameters
+const IGNORED_HEADERS = ['accept', 'content-type', 'authorization'];
+
+export function resolveParameter(
+  parameter: Parameter | Reference,
+  componentParameters: Record<string, Parameter | Reference>,
+  seen: Set<string> = new Set()
+): Parameter | null {
+  if (!('$ref' in parameter)) return parameter;
+
+  const ref = parameter.$ref;
+  if (!ref.startsWith('#/components/parameters/') || seen.has(ref)) return null;
+
+  const refName = getRefName(ref);
+  const target = componentParameters[refName];
+  if (!target) return null;
+
+  seen.add(ref);
+  return resolveParameter(target, componentParameters, seen);
+}
+
+export function mergeParameters(
+  pathLevel: Array<Parameter | Reference> = [],
+  operationLevel: Array<Parameter | Reference> = [],
+  componentParameters: Record<string, Parameter | Reference> = {}
+): Parameter[] {
+  // Operation-level parameters override path-level ones with the same name and location;
+  // header names are case-insensitive
+  const merged = new Map<string, Parameter>();
+
+  [...pathLevel, ...operationLevel].forEach(entry => {
+    const parameter = resolveParameter(entry, componentParameters);
+    if (!parameter) return;
+    if (parameter.in === 'header' && IGNORED_HEADERS.includes(parameter.name.toLowerCase())) return;
+    const name = parameter.in === 'header' ? parameter.name.toLowerCase() : parameter.name;
+    merged.set(`${parameter.in}:${name}`, parameter);
+  });
+
+  return Array.from(merged.values());
+}
+
+export function getParameterStyle(parameter: Parameter): string {
+  if (parameter.style) return parameter.style;
+  return parameter.in === 'query' || parameter.in === 'cookie' ? 'form' : 'simple';
+}
+
+export function getParameterExplode(parameter: Parameter): boolean {
+  if (parameter.explode !== undefined) return parameter.explode;
+  return getParameterStyle(parameter) === 'form';
+}
@@ -0,0 +1,64 @@
+import { performance } from 'perf_hooks';
+import { GeneratedFile } from '../types.js';
+import { getRelativePath } from '../writer.js';
+
+export interface ProfileEntry {
+  name: string;
+  milliseconds: number;
+  // Size of the generated module; phases have none
+  bytes?: number;
+}
+
+// Wall-clock time per generation phase and per generated module, for `--report`
+export class Profiler {
+  readonly phases: ProfileEntry[] = [];
+  readonly modules: ProfileEntry[] = [];
+
+  phase<T>(name: string, run: () => T): T {
+    const start = performance.now();
+    try {
+      return run();
+    } finally {
+      this.phases.push({ name, milliseconds: performance.now() - start });
+    }
+  }
+
+  // Times one module; generators that skip a module return null, which is not recorded
+  module<T extends GeneratedFile | null>(generate: () => T): T {
+    const start = performance.now();
+    const file = generate();
+    if (file) {
+      this.modules.push({
+        name: getRelativePath(file),
+        milliseconds: performance.now() - start,
+        bytes: Buffer.byteLength(file.content)
+      });
+    }
+    return file;
+  }
+}
+
+function formatBytes(bytes: number): string {
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+function formatMilliseconds(milliseconds: number): string {
+  return `${milliseconds.toFixed(1)} ms`;
+}
+
+export function formatReport(profiler: Profiler, limit = 10): string[] {
+  const { phases, modules } = profiler;
+  const total = (entries: ProfileEntry[], pick: (entry: ProfileEntry) => number) => entries.reduce((sum, entry) => sum + pick(entry), 0);
+  const list = (entries: ProfileEntry[]) => entries
+    .slice(0, limit)
+    .map(entry => `     ${formatBytes(entry.bytes!).padStart(9)} ${formatMilliseconds(entry.milliseconds).padStart(9)}  ${entry.name}`);
+
+  return [
+    `   Phases: ${phases.map(entry => `${entry.name} ${formatMilliseconds(entry.milliseconds)}`).join(', ')}`,
+    `   Schema modules: ${modules.length}, ${formatBytes(total(modules, entry => entry.bytes!))} in ${formatMilliseconds(total(modules, entry => entry.milliseconds))}`,
+    '   Largest modules:',
+    ...list([...modules].sort((a, b) => b.bytes! - a.bytes!)),
+    '   Slowest modules:',
+    ...list([...modules].sort((a, b) => b.milliseconds - a.milliseconds))
+  ];
+}
@@ -0,0 +1,63 @@
+import { Schema } from '../types.js';
+import { getRefName } from './jsonPointer.js';
+import { isComponentSchema } from './helpers.js';
+import { forEachChild, getReference, NodeKind } from './traversal.js';
+
+// Every component a schema refers to, at any depth
+export function collectSchemaRefs(schema: unknown, refs = new Set<string>(), kind: NodeKind = 'keywords'): Set<string> {
+  const ref = getReference(schema, kind);
+  if (ref && isComponentSchema({ $ref: ref })) {
+    refs.add(getRefName(ref));
+  }
+  forEachChild(schema, kind, (child, _key, childKind) => collectSchemaRefs(child, refs, childKind));
+  return refs;
+}
+
+// Groups of components that refer to each other, directly or through other members (the strongly
+// connected components of the reference graph), including single components that refer to themselves.
+// Members keep the order of `components/schemas`.
+export function findRecursiveGroups(schemas: Record<string, Schema>): string[][] {
+  const names = Object.keys(schemas);
+  const edges = new Map(names.map(name => [name, Array.from(collectSchemaRefs(schemas[name])).filter(ref => ref in schemas)]));
+  const order = new Map(names.map((name, index) => [name, index]));
+
+  // Tarjan's algorithm
+  const indices = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const groups: string[][] = [];
+
+  const visit = (name: string) => {
+    indices.set(name, indices.size);
+    lowLinks.set(name, indices.get(name)!);
+    stack.push(name);
+    onStack.add(name);
+
+    edges.get(name)!.forEach(ref => {
+      if (!indices.has(ref)) {
+        visit(ref);
+        lowLinks.set(name, Math.min(lowLinks.get(name)!, lowLinks.get(ref)!));
+      } else if (onStack.has(ref)) {
+        lowLinks.set(name, Math.min(lowLinks.get(name)!, indices.get(ref)!));
+      }
+    });
+
+    if (lowLinks.get(name) !== indices.get(name)) return;
+    const group: string[] = [];
+    let member: string;
+    do {
+      member = stack.pop()!;
+      onStack.delete(member);
+      group.push(member);
+    } while (member !== name);
+    if (group.length > 1 || edges.get(name)!.includes(name)) {
+      groups.push(group.sort((a, b) => order.get(a)! - order.get(b)!));
+    }
+  };
+  names.forEach(name => {
+    if (!indices.has(name)) visit(name);
+  });
+
+  return groups.sort((a, b) => order.get(a[0])! - order.get(b[0])!);
+}
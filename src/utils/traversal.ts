@@ -0,0 +1,48 @@
+// Objects are keyed either by keywords (schemas and other OpenAPI objects) or by names the spec
+// chooses (`properties`, `components/schemas`, `content`, ...). A name may look like a keyword, so
+// whether `default` holds literal data depends on which kind of object it sits in.
+export type NodeKind = 'keywords' | 'names';
+
+// Keywords holding data or names rather than OpenAPI objects; schema `examples` are an array of values
+const DATA_KEYWORDS = ['example', 'examples', 'default', 'const', 'enum', 'discriminator', 'xml', 'externalDocs'];
+// Keywords mapping names to schemas or other OpenAPI objects
+const MAP_KEYWORDS = [
+  'properties', 'patternProperties', 'dependentSchemas', '$defs', 'paths', 'webhooks', 'schemas', 'responses',
+  'parameters', 'examples', 'requestBodies', 'headers', 'securitySchemes', 'links', 'callbacks', 'pathItems',
+  'content', 'encoding'
+];
+
+// What the value under `key` of an object of the given kind holds
+export function childKind(key: string, value: unknown, parent: NodeKind): NodeKind | 'data' {
+  if (parent === 'names') return 'keywords';
+  if (key.startsWith('x-')) return 'data';
+  // Media type and component `examples` map names to Example objects
+  if (MAP_KEYWORDS.includes(key) && value && typeof value === 'object' && !Array.isArray(value)) return 'names';
+  return DATA_KEYWORDS.includes(key) ? 'data' : 'keywords';
+}
+
+// Calls `visit` for every child that may hold OpenAPI objects, skipping literal data; array items
+// are objects of their own, such as `allOf` members or parameters
+export function forEachChild(
+  node: unknown,
+  kind: NodeKind,
+  visit: (child: unknown, key: string, kind: NodeKind) => void
+): void {
+  if (Array.isArray(node)) {
+    node.forEach((item, index) => visit(item, String(index), 'keywords'));
+    return;
+  }
+  if (!node || typeof node !== 'object') return;
+
+  Object.entries(node).forEach(([key, value]) => {
+    const child = childKind(key, value, kind);
+    if (child !== 'data') visit(value, key, child);
+  });
+}
+
+// `$ref` is only a reference where keys are keywords; elsewhere it names a property
+export function getReference(node: unknown, kind: NodeKind): string | undefined {
+  if (kind !== 'keywords' || !node || typeof node !== 'object' || Array.isArray(node)) return undefined;
+  const { $ref } = node as { $ref?: unknown };
+  return typeof $ref === 'string' ? $ref : undefined;
+}
@@ -1,183 +1,725 @@
-import { Schema } from '../types.js';
+import { Schema, Discriminator, FormatOptions, ZodPlugin, ZodRefinement } from '../types.js';
+import { getRefName } from './jsonPointer.js';
+import { formatRegex, getSchemaTypes } from './helpers.js';
+import { Naming } from './naming.js';
+import { DiagnosticCollector } from './diagnostics.js';
+import { Visibility, isVisible } from './visibility.js';
+import { findRecursiveGroups } from './recursion.js';
+import { FORMAT_PATTERNS, FORMAT_RANGES, INTEGER_PATTERN, STRING_FORMATS } from './formats.js';
+import { SchemaEmitter } from '../emitters/emitter.js';
+import { createEmitter } from '../emitters/targets.js';
+import { Check, PropertyNode, SchemaNode, raw, ref, withCheck } from '../emitters/schemaNode.js';
+
+// Parameter and form values arrive as text; coercing with Boolean() would turn "false" into true
+const COERCE_BOOLEAN = "(value) => (value === 'true' ? true : value === 'false' ? false : value)";
+// Empty values would coerce to 0, so they count as missing
+const EMPTY_AS_MISSING = "(value) => (value === '' ? undefined : value)";
+const COERCE_NUMBER = "(value) => (value === '' ? undefined : typeof value === 'string' ? Number(value) : value)";
+
+// Keywords checked by refinements, which turn a z.object() into something z.discriminatedUnion() cannot take
+const OBJECT_REFINEMENT_KEYWORDS = [
+  'not', 'if', 'minProperties', 'maxProperties', 'patternProperties', 'propertyNames', 'dependentRequired'
+] as const;
+
+export interface TypeConverterOptions {
+  coercePrimitives?: boolean;
+  formats?: FormatOptions;
+  // Renders the converted schemas (default: Zod 3)
+  emitter?: SchemaEmitter;
+  naming?: Naming;
+  // Receives the problems found while converting, such as a discriminator that cannot be used
+  diagnostics?: DiagnosticCollector;
+  overrides?: Map<Schema, string>;
+  plugins?: ZodPlugin[];
+  // Leaves out readOnly (input) or writeOnly (output) properties
+  visibility?: Visibility;
+  // Components that have a separate input variant
+  variants?: Set<string>;
+}
+
+interface Conversion {
+  node: SchemaNode;
+  // Collected while converting, and collected again whenever the result is reused
+  references: string[];
+  imports: string[];
+}
 
 export class TypeConverter {
   private schemas: Record<string, Schema>;
-  private dependencies = new Map<string, Set<string>>();
+  private isOpenApi30: boolean;
+  private options: TypeConverterOptions;
+  private naming: Naming;
+  private emitter: SchemaEmitter;
+  private references = new Set<string>();
+  private imports = new Set<string>();
+  // Conversions by schema object, then by the context they were converted in
+  private cache = new WeakMap<Schema, Map<string, Conversion>>();
+  // Components in a reference cycle, found on first use
+  private recursive?: Set<string>;
+  private addImport = (statement: string): void => {
+    this.imports.add(statement);
+  };
 
-  constructor(schemas: Record<string, Schema>) {
+  constructor(schemas: Record<string, Schema>, openapiVersion = '3.1.0', options: TypeConverterOptions = {}) {
     this.schemas = schemas;
+    this.isOpenApi30 = openapiVersion.startsWith('3.0');
+    this.options = options;
+    this.naming = options.naming || new Naming();
+    this.emitter = options.emitter || createEmitter();
+  }
+
+  getOverride(property: Schema | undefined): string | undefined {
+    return property ? this.options.overrides?.get(property) : undefined;
+  }
+
+  // Identifier of a component on this converter's side, e.g. `UserInput` for request bodies
+  schemaRef(componentName: string): string {
+    return this.options.visibility === 'input' && this.options.variants?.has(componentName)
+      ? this.naming.inputName(componentName)
+      : this.naming.schemaName(componentName);
+  }
+
+  // Components referenced by conversions since the last call
+  takeReferences(): string[] {
+    const references = Array.from(this.references);
+    this.references.clear();
+    return references;
+  }
+
+  // Import statements requested by plugins and `x-zod-import` since the last call
+  takeImports(): string[] {
+    const imports = Array.from(this.imports);
+    this.imports.clear();
+    return imports;
+  }
+
+  emit(node: SchemaNode): string {
+    return this.emitter.emit(node);
+  }
+
+  // A default already accepts undefined; wrapping it in an optional would skip the default
+  optional(node: SchemaNode, property: Schema | undefined, required: boolean): SchemaNode {
+    return required || (property && this.hasDefault(property)) ? node : { kind: 'optional', inner: node };
+  }
+
+  applyPropertyHooks(node: SchemaNode, key: string, parent: Schema, required: boolean, schemaName = ''): SchemaNode {
+    const schema = parent.properties?.[key] ?? {};
+    return this.withHooks(node, plugin => plugin.onProperty && ((current: string) =>
+      plugin.onProperty!(current, { schema, schemaName, target: this.emitter.target, key, parent, required, addImport: this.addImport })));
+  }
+
+  // Hooks see the rendered expression, so they run when the node is emitted
+  private withHooks(node: SchemaNode, getHook: (plugin: ZodPlugin) => ((zod: string) => string | void) | undefined): SchemaNode {
+    const hooks = (this.options.plugins || []).map(getHook).filter((hook): hook is (zod: string) => string | void => !!hook);
+    if (hooks.length === 0) return node;
+    return { kind: 'hook', inner: node, apply: code => hooks.reduce((current, hook) => hook(current) || current, code) };
   }
 
   convertType(
     property: Schema | undefined,
     currentPath: string[] = [],
-    schemaName = '',
-    isInline = false
+    schemaName = ''
   ): string {
-    if (!property) return 'z.unknown()';
-    
+    return this.emit(this.convertNode(property, currentPath, schemaName));
+  }
+
+  convertNode(
+    property: Schema | undefined,
+    currentPath: string[] = [],
+    schemaName = ''
+  ): SchemaNode {
+    if (!property) return { kind: 'unknown' };
+
+    // The same schema object is often reached many times, e.g. a shared parameter in every operation
+    const key = [schemaName, ...currentPath].join('\n');
+    const cached = this.cache.get(property)?.get(key);
+    if (cached) {
+      cached.references.forEach(refName => this.references.add(refName));
+      cached.imports.forEach(this.addImport);
+      return cached.node;
+    }
+
+    const { references, imports } = this;
+    this.references = new Set();
+    this.imports = new Set();
+    try {
+      const node = this.convertUncached(property, currentPath, schemaName);
+      const conversion = { node, references: Array.from(this.references), imports: Array.from(this.imports) };
+      if (!this.cache.has(property)) this.cache.set(property, new Map());
+      this.cache.get(property)!.set(key, conversion);
+      return node;
+    } finally {
+      this.references.forEach(refName => references.add(refName));
+      this.imports.forEach(statement => imports.add(statement));
+      this.references = references;
+      this.imports = imports;
+    }
+  }
+
+  private convertUncached(property: Schema, currentPath: string[], schemaName: string): SchemaNode {
+    // Overrides replace the whole expression, nullability included
+    const override = this.getOverride(property);
+    if (override !== undefined) return raw(override);
+
+    const baseType = this.convertNonNullable(property, currentPath, schemaName);
+    const node = this.applyExtensions(property, this.applyConditionals(property, baseType, currentPath, schemaName));
+    const nullable: SchemaNode = this.isNullable(property) ? { kind: 'nullable', inner: node } : node;
+    const result: SchemaNode = this.hasDefault(property) ? { kind: 'default', inner: nullable, value: property.default } : nullable;
+    return this.withHooks(result, plugin => plugin.onSchema && ((current: string) =>
+      plugin.onSchema!(current, { schema: property, schemaName, target: this.emitter.target, addImport: this.addImport })));
+  }
+
+  private hasDefault(property: Schema): boolean {
+    // OpenAPI 3.0 ignores every sibling of `$ref`
+    return property.default !== undefined && !(property.$ref && this.isOpenApi30);
+  }
+
+  private applyConditionals(
+    property: Schema,
+    node: SchemaNode,
+    currentPath: string[],
+    schemaName: string
+  ): SchemaNode {
+    const convert = (schema: Schema) => this.convertNode(schema, currentPath, schemaName);
+    let result = node;
+
+    if (property.not) {
+      const not = convert(property.not);
+      result = withCheck(result, {
+        kind: 'refine',
+        predicate: helpers => `(value) => !${helpers.accepts(helpers.schema(not), 'value')}`,
+        message: 'Must not match the "not" schema'
+      });
+    }
+    if (property.if && (property.then || property.else)) {
+      const condition = convert(property.if);
+      const then = property.then ? convert(property.then) : null;
+      const otherwise = property.else ? convert(property.else) : null;
+      result = withCheck(result, {
+        kind: 'custom',
+        body: helpers => `const branch: ${helpers.schemaType} | null = ${helpers.accepts(helpers.schema(condition), 'value')} `
+          + `? ${then ? helpers.schema(then) : 'null'} : ${otherwise ? helpers.schema(otherwise) : 'null'}; `
+          + `if (branch) ${helpers.forward('branch', 'value')};`
+      });
+    }
+
+    return result;
+  }
+
+  private applyExtensions(property: Schema, node: SchemaNode): SchemaNode {
+    // `x-zod-*` vendor extensions decorate the generated expression
+    const imports = property['x-zod-import'];
+    (Array.isArray(imports) ? imports : imports ? [imports] : []).forEach(this.addImport);
+
+    let result = node;
+    const refinements = property['x-zod-refine'];
+    (Array.isArray(refinements) ? refinements : refinements ? [refinements] : []).forEach((refinement: ZodRefinement) => {
+      const { check, message } = typeof refinement === 'string' ? { check: refinement, message: undefined } : refinement;
+      result = withCheck(result, { kind: 'refine', predicate: () => check, message });
+    });
+    if (property['x-zod-transform']) {
+      result = { kind: 'transform', inner: result, fn: property['x-zod-transform'] };
+    }
+    if (property['x-zod-brand']) {
+      result = { kind: 'brand', inner: result, brand: property['x-zod-brand'] };
+    }
+    return result;
+  }
+
+  // `x-zod-message` replaces every issue message raised by the schema itself
+  private getMessage(property: Schema): string | undefined {
+    return property['x-zod-message'] || undefined;
+  }
+
+  private isNullable(property: Schema): boolean {
+    // OpenAPI 3.0 ignores every sibling of `$ref`
+    if (property.$ref && this.isOpenApi30) return false;
+
+    // `nullable` is the 3.0 form; it is still honored in 3.1 documents for compatibility
+    if (property.nullable === true) return true;
+
+    const types = Array.isArray(property.type) ? property.type : [];
+    return types.includes('null') && types.some(type => type !== 'null');
+  }
+
+  private convertNonNullable(
+    property: Schema,
+    currentPath: string[],
+    schemaName: string
+  ): SchemaNode {
     if (property.$ref) {
-      const refName = property.$ref.split('/').pop()!;
-      // Track dependency
-      if (schemaName && refName && !isInline) {
-        if (!this.dependencies.has(schemaName)) {
-          this.dependencies.set(schemaName, new Set());
-        }
-        this.dependencies.get(schemaName)!.add(refName);
-      }
-      
+      // Components are always referenced by name, so the caller imports their module
+      const refName = getRefName(property.$ref);
+      this.references.add(refName);
+
       // Check if we're in a circular reference
       if (currentPath.includes(refName)) {
-        return `z.lazy(() => ${refName})`;
-      }
-      
-      // If inline, return the actual schema instead of reference
-      if (isInline && this.schemas[refName]) {
-        return this.convertType(this.schemas[refName], [...currentPath, refName], refName, true);
+        return { kind: 'ref', name: this.schemaRef(refName), lazy: true };
       }
-      
-      return refName;
+
+      // Primitive components are coerced where they are used, as the component itself is not
+      const coercion = this.options.coercePrimitives ? this.getReferenceCoercion(refName) : undefined;
+      if (coercion) return { kind: 'preprocess', fn: coercion, inner: ref(this.schemaRef(refName)) };
+
+      return ref(this.schemaRef(refName));
     }
-    
+
     if (property.allOf) {
-      const schemas = property.allOf.map(s => this.convertType(s, currentPath, schemaName, isInline));
-      return schemas.length > 1 ? `z.intersection(${schemas.join(', ')})` : schemas[0];
-    }
-    
-    if (property.oneOf) {
-      const schemas = property.oneOf.map(s => this.convertType(s, currentPath, schemaName, isInline));
-      return `z.union([${schemas.join(', ')}])`;
-    }
-    
-    if (property.anyOf) {
-      const schemas = property.anyOf.map(s => this.convertType(s, currentPath, schemaName, isInline));
-      return `z.union([${schemas.join(', ')}])`;
-    }
-    
-    const type = property.type;
-    
+      const schemas = property.allOf.map(s => this.convertNode(s, currentPath, schemaName));
+      return schemas.length === 1 ? schemas[0] : { kind: 'intersection', options: schemas };
+    }
+
+    if (property.oneOf || property.anyOf) {
+      const variants = (property.oneOf || property.anyOf)!;
+      if (property.discriminator) {
+        const discriminated = this.convertDiscriminatedUnion(property.discriminator, variants, currentPath, schemaName);
+        if (discriminated) return discriminated;
+      }
+      const schemas = variants.map(s => this.convertNode(s, currentPath, schemaName));
+      return { kind: 'union', options: schemas };
+    }
+
+    if (property.const !== undefined) {
+      return this.convertConst(property.const);
+    }
+
+    if (property.enum && property.enum.length > 0) {
+      return this.convertEnum(property);
+    }
+
+    // Type arrays (3.1) become a union of their non-null members
+    const types = getSchemaTypes(property);
+    const nonNullTypes = types.filter(type => type !== 'null');
+    if (nonNullTypes.length > 1) {
+      const schemas = nonNullTypes.map(type => this.convertSingleType(property, type, currentPath, schemaName));
+      return { kind: 'union', options: schemas };
+    }
+
+    return this.convertSingleType(property, nonNullTypes[0] ?? types[0], currentPath, schemaName);
+  }
+
+  private convertSingleType(
+    property: Schema,
+    type: string | undefined,
+    currentPath: string[],
+    schemaName: string
+  ): SchemaNode {
     switch (type) {
       case 'string':
-        return this.convertString(property);
-        
+        return this.convertString(property, schemaName);
+
       case 'number':
       case 'integer':
-        return this.convertNumber(property, type);
-        
+        return this.convertNumber(property, type, schemaName);
+
       case 'boolean':
-        return 'z.boolean()';
-        
+        return this.options.coercePrimitives
+          ? { kind: 'preprocess', fn: COERCE_BOOLEAN, inner: { kind: 'boolean', message: this.getMessage(property) } }
+          : { kind: 'boolean', message: this.getMessage(property) };
+
       case 'array':
-        return this.convertArray(property, currentPath, schemaName, isInline);
-        
+        return this.convertArray(property, currentPath, schemaName);
+
       case 'object':
-        return this.convertObject(property, currentPath, schemaName, isInline);
-        
+        return this.convertObject(property, currentPath, schemaName);
+
       case 'null':
-        return 'z.null()';
-        
+        return { kind: 'null' };
+
       default:
-        return 'z.unknown()';
+        return { kind: 'unknown' };
+    }
+  }
+
+  private convertDiscriminatedUnion(
+    discriminator: Discriminator,
+    variants: Schema[],
+    currentPath: string[],
+    schemaName: string
+  ): SchemaNode | null {
+    const { propertyName, mapping = {} } = discriminator;
+    const warn = (reason: string) => {
+      const message = `Cannot discriminate ${schemaName || 'inline schema'} by "${propertyName}" (${reason}), falling back to a plain union`;
+      this.options.diagnostics?.report('warning', 'discriminator-fallback', message, discriminator);
+      return null;
+    };
+
+    // Mapping values may be refs or bare schema names
+    const mappedValues = new Map<string, string[]>();
+    Object.entries(mapping).forEach(([value, target]) => {
+      const refName = target.includes('/') ? getRefName(target) : target;
+      mappedValues.set(refName, [...(mappedValues.get(refName) || []), value]);
+    });
+
+    const seenValues = new Set<string>();
+    const members: SchemaNode[] = [];
+
+    for (const variant of variants) {
+      const refName = variant.$ref ? getRefName(variant.$ref) : undefined;
+      const resolved = refName ? this.schemas[refName] : variant;
+
+      // Recursive components are annotated with their written-out type, which has no `.extend()`
+      if (refName && this.isRecursive(refName)) return warn(`${refName} is recursive`);
+      if (!resolved || !resolved.properties || resolved.allOf || resolved.oneOf || resolved.anyOf
+        || OBJECT_REFINEMENT_KEYWORDS.some(keyword => resolved[keyword] !== undefined)) {
+        return warn(`${refName || 'an inline variant'} is not a plain object schema`);
+      }
+
+      const ownProperty = resolved.properties[propertyName];
+      // Unmapped refs use the implicit schema-name value, inline variants their own enum
+      const ownValues = (ownProperty?.enum || []).filter((value): value is string => typeof value === 'string');
+      const values = refName ? mappedValues.get(refName) || [refName] : ownValues;
+      if (values.length === 0) return warn('an inline variant has no discriminator value');
+      if (values.some(value => seenValues.has(value))) return warn('discriminator values are not unique');
+      values.forEach(value => seenValues.add(value));
+
+      // Narrow the discriminator property to the value(s) selecting this variant
+      const literal: SchemaNode = values.length === 1 ? { kind: 'literal', value: values[0] } : { kind: 'enum', values };
+      const node = this.convertNode(variant, currentPath, schemaName);
+      members.push({ kind: 'extend', inner: node, properties: [{ key: propertyName, node: literal }] });
+    }
+
+    return { kind: 'discriminatedUnion', key: propertyName, options: members };
+  }
+
+  private isRecursive(name: string): boolean {
+    if (!this.recursive) this.recursive = new Set(findRecursiveGroups(this.schemas).flat());
+    return this.recursive.has(name);
+  }
+
+  private convertConst(value: unknown): SchemaNode {
+    if (value === null) return { kind: 'null' };
+    // Structured constants are compared by their JSON representation
+    if (typeof value === 'object') return { kind: 'json', value };
+    return { kind: 'literal', value: value as string | number | boolean };
+  }
+
+  private convertEnum(property: Schema): SchemaNode {
+    // `null` is covered by the nullable wrapper when the schema is nullable anyway
+    const values = property.enum!.filter(value => value !== null || !this.isNullable(property));
+    if (values.length === 0) return { kind: 'null' };
+    if (values.every(value => typeof value === 'string')) {
+      return { kind: 'enum', values: values as string[], message: this.getMessage(property) };
     }
+    // Mixed values become a union of literals
+    const literals = values.map(value => this.convertConst(value));
+    return literals.length === 1 ? literals[0] : { kind: 'union', options: literals, message: this.getMessage(property) };
   }
 
-  private convertString(property: Schema): string {
-    let zodString = 'z.string()';
-    
-    if (property.enum) {
-      return `z.enum([${property.enum.map(e => `"${e}"`).join(', ')}])`;
+  private convertString(property: Schema, schemaName: string): SchemaNode {
+    // Binary strings (3.0 `format: binary`, 3.1 `contentMediaType` without encoding) are files
+    if (property.format === 'binary' || (property.contentMediaType && !property.contentEncoding)) {
+      return this.binary();
+    }
+
+    const { format } = property;
+    let node: SchemaNode = {
+      kind: 'string',
+      format: format ? STRING_FORMATS[format] : undefined,
+      message: this.getMessage(property)
+    };
+    if (format && FORMAT_PATTERNS[format]) {
+      node = withCheck(node, { kind: 'regex', pattern: FORMAT_PATTERNS[format] });
     }
-    
-    if (property.format === 'date-time') {
-      zodString += '.datetime()';
-    } else if (property.format === 'date') {
-      zodString += '.date()';
-    } else if (property.format === 'email') {
-      zodString += '.email()';
-    } else if (property.format === 'uuid') {
-      zodString += '.uuid()';
-    } else if (property.format === 'uri' || property.format === 'url') {
-      zodString += '.url()';
+    if (format) {
+      node = this.applyFormatHooks(node, property, 'string', schemaName);
     }
-    
+
     if (property.pattern) {
-      zodString += `.regex(/${property.pattern}/)`;
+      node = withCheck(node, { kind: 'regex', pattern: property.pattern });
     }
     if (property.minLength !== undefined) {
-      zodString += `.min(${property.minLength})`;
+      node = withCheck(node, { kind: 'minLength', value: property.minLength });
     }
     if (property.maxLength !== undefined) {
-      zodString += `.max(${property.maxLength})`;
+      node = withCheck(node, { kind: 'maxLength', value: property.maxLength });
+    }
+
+    // Dates are validated as strings first
+    if (this.options.formats?.dates === 'Date' && (format === 'date' || format === 'date-time')) {
+      node = { kind: 'transform', inner: node, fn: '(value) => new Date(value)', type: 'Date' };
     }
-    
-    return zodString;
+
+    return node;
+  }
+
+  // Files and other binary values
+  binary(): SchemaNode {
+    return { kind: this.options.formats?.binary === 'Uint8Array' ? 'bytes' : 'blob' };
   }
 
-  private convertNumber(property: Schema, type: string): string {
-    let zodNumber = type === 'integer' ? 'z.number().int()' : 'z.number()';
-    
+  private convertNumber(property: Schema, type: string, schemaName: string): SchemaNode {
+    const int64 = type === 'integer' && property.format === 'int64' ? this.options.formats?.int64 : undefined;
+    if (int64 === 'bigint') return this.convertBigInt(property, schemaName);
+
+    let node: SchemaNode = {
+      kind: 'number',
+      integer: type === 'integer',
+      coerce: !!this.options.coercePrimitives,
+      message: this.getMessage(property)
+    };
+    if (property.format) {
+      node = this.applyFormatHooks(node, property, type, schemaName);
+    }
+
+    // 3.0 uses boolean exclusive flags on minimum/maximum, 3.1 uses numeric bounds
     if (property.minimum !== undefined) {
-      zodNumber += `.min(${property.minimum})`;
+      node = withCheck(node, { kind: property.exclusiveMinimum === true ? 'gt' : 'gte', value: property.minimum });
+    }
+    if (typeof property.exclusiveMinimum === 'number') {
+      node = withCheck(node, { kind: 'gt', value: property.exclusiveMinimum });
     }
     if (property.maximum !== undefined) {
-      zodNumber += `.max(${property.maximum})`;
+      node = withCheck(node, { kind: property.exclusiveMaximum === true ? 'lt' : 'lte', value: property.maximum });
+    }
+    if (typeof property.exclusiveMaximum === 'number') {
+      node = withCheck(node, { kind: 'lt', value: property.exclusiveMaximum });
+    }
+    if (property.multipleOf !== undefined) {
+      node = withCheck(node, { kind: 'multipleOf', value: property.multipleOf });
+    }
+
+    // Sized formats are held to their range where the spec leaves a side open
+    const range = property.format ? FORMAT_RANGES[property.format] : undefined;
+    if (range && property.minimum === undefined && typeof property.exclusiveMinimum !== 'number') {
+      node = withCheck(node, { kind: 'gte', value: range[0] });
+    }
+    if (range && property.maximum === undefined && typeof property.exclusiveMaximum !== 'number') {
+      node = withCheck(node, { kind: 'lte', value: range[1] });
     }
-    
-    return zodNumber;
+
+    // Decimal strings keep every digit; numbers are still accepted, as JSON usually carries them
+    if (int64 === 'string') {
+      const digits = this.withBigIntChecks(
+        withCheck({ kind: 'string', message: this.getMessage(property) }, { kind: 'regex', pattern: INTEGER_PATTERN }),
+        property,
+        value => `${formatRegex(INTEGER_PATTERN)}.test(${value}) && BigInt(${value})`
+      );
+      node = { kind: 'union', options: [digits, { kind: 'transform', inner: node, fn: 'String', type: 'string' }] };
+    }
+
+    return this.options.coercePrimitives ? { kind: 'preprocess', fn: EMPTY_AS_MISSING, inner: node } : node;
+  }
+
+  // How a value is coerced before it reaches a number or boolean component, following `$ref` chains
+  private getReferenceCoercion(refName: string, seen = new Set<string>()): string | undefined {
+    const schema = this.schemas[refName];
+    if (!schema || seen.has(refName)) return undefined;
+    if (schema.$ref) return this.getReferenceCoercion(getRefName(schema.$ref), seen.add(refName));
+
+    const types = getSchemaTypes(schema).filter(type => type !== 'null');
+    if (types.length !== 1) return undefined;
+    if (types[0] === 'boolean') return COERCE_BOOLEAN;
+    // int64 values kept as bigints or strings read strings themselves, without losing digits
+    if (types[0] === 'integer' && schema.format === 'int64' && this.options.formats?.int64 && this.options.formats.int64 !== 'number') {
+      return undefined;
+    }
+    return types[0] === 'number' || types[0] === 'integer' ? COERCE_NUMBER : undefined;
+  }
+
+  // Integral numbers and decimal strings become bigints, whatever the coercion mode, as JSON has no bigints
+  private convertBigInt(property: Schema, schemaName: string): SchemaNode {
+    let node: SchemaNode = { kind: 'bigint', message: this.getMessage(property) };
+    node = this.applyFormatHooks(node, property, 'integer', schemaName);
+    return {
+      kind: 'preprocess',
+      fn: `(value) => (typeof value === 'string' && ${formatRegex(INTEGER_PATTERN)}.test(value)) || Number.isInteger(value) ? BigInt(value as string | number) : value`,
+      inner: this.withBigIntChecks(node, property, value => value)
+    };
+  }
+
+  // Bounds of int64 values compared as bigints, so large ones are exact; `toBigInt` renders the
+  // checked value as a bigint, behind a guard where it may not be one
+  private withBigIntChecks(node: SchemaNode, property: Schema, toBigInt: (value: string) => string): SchemaNode {
+    // Fractional bounds round inwards and become inclusive
+    const bound = (value: number, operator: string, round: (value: number) => number): [string, number] =>
+      Number.isInteger(value) ? [operator, value] : [`${operator[0]}=`, round(value)];
+    const bounds: Array<[string, number]> = [];
+    if (property.minimum !== undefined) bounds.push(bound(property.minimum, property.exclusiveMinimum === true ? '>' : '>=', Math.ceil));
+    if (typeof property.exclusiveMinimum === 'number') bounds.push(bound(property.exclusiveMinimum, '>', Math.ceil));
+    if (property.maximum !== undefined) bounds.push(bound(property.maximum, property.exclusiveMaximum === true ? '<' : '<=', Math.floor));
+    if (typeof property.exclusiveMaximum === 'number') bounds.push(bound(property.exclusiveMaximum, '<', Math.floor));
+
+    const checks: Check[] = bounds.map(([operator, value]) => ({
+      kind: 'refine',
+      predicate: () => `(value) => ${toBigInt('value')} ${operator} ${BigInt(value)}n`
+    }));
+    if (property.multipleOf !== undefined && Number.isInteger(property.multipleOf)) {
+      checks.push({ kind: 'refine', predicate: () => `(value) => ${toBigInt('value')} % ${BigInt(property.multipleOf!)}n === 0n` });
+    }
+    return checks.reduce(withCheck, node);
+  }
+
+  private applyFormatHooks(node: SchemaNode, property: Schema, type: string, schemaName: string): SchemaNode {
+    const format = property.format!;
+    return this.withHooks(node, plugin => plugin.onFormat && ((current: string) =>
+      plugin.onFormat!(current, { schema: property, schemaName, target: this.emitter.target, format, type, addImport: this.addImport })));
   }
 
   private convertArray(
     property: Schema,
     currentPath: string[],
-    schemaName: string,
-    isInline: boolean
-  ): string {
-    const itemsSchema = this.convertType(property.items, currentPath, schemaName, isInline);
-    let zodArray = `z.array(${itemsSchema})`;
-    
-    if (property.minItems !== undefined) {
-      zodArray += `.min(${property.minItems})`;
+    schemaName: string
+  ): SchemaNode {
+    const convert = (schema: Schema) => this.convertNode(schema, currentPath, schemaName);
+    const message = this.getMessage(property);
+    let node: SchemaNode;
+
+    if (property.prefixItems) {
+      // Items after the tuple follow `items`; `items: false` allows none
+      const rest: SchemaNode | null = property.items === false ? null : property.items ? convert(property.items) : { kind: 'unknown' };
+      node = { kind: 'tuple', items: property.prefixItems.map(convert), rest, message };
+
+      // A tuple already fixes the length without a rest element
+      const { minItems, maxItems } = property;
+      if (minItems !== undefined && minItems > property.prefixItems.length) {
+        node = withCheck(node, { kind: 'refine', predicate: () => `(items) => items.length >= ${minItems}`, message: `Expected at least ${minItems} items` });
+      }
+      if (maxItems !== undefined && rest) {
+        node = withCheck(node, { kind: 'refine', predicate: () => `(items) => items.length <= ${maxItems}`, message: `Expected at most ${maxItems} items` });
+      }
+    } else {
+      const items: SchemaNode = property.items === false ? { kind: 'never' } : this.convertNode(property.items, currentPath, schemaName);
+      node = { kind: 'array', items, message };
+
+      if (property.minItems !== undefined) {
+        node = withCheck(node, { kind: 'minLength', value: property.minItems });
+      }
+      if (property.maxItems !== undefined) {
+        node = withCheck(node, { kind: 'maxLength', value: property.maxItems });
+      }
+    }
+
+    if (property.uniqueItems) {
+      node = withCheck(node, {
+        kind: 'refine',
+        predicate: () => '(items) => new Set(items.map((item) => JSON.stringify(item))).size === items.length',
+        message: 'Items must be unique'
+      });
     }
-    if (property.maxItems !== undefined) {
-      zodArray += `.max(${property.maxItems})`;
+    if (property.contains) {
+      const contains = convert(property.contains);
+      const min = property.minContains ?? 1;
+      const conditions = [`count >= ${min}`, ...(property.maxContains !== undefined ? [`count <= ${property.maxContains}`] : [])];
+      const message = property.maxContains !== undefined
+        ? `Expected ${min} to ${property.maxContains} items matching "contains"`
+        : `Expected at least ${min} items matching "contains"`;
+      node = withCheck(node, {
+        kind: 'refine',
+        predicate: helpers => `(items) => { const count = items.filter((item) => ${helpers.accepts(helpers.schema(contains), 'item')}).length; `
+          + `return ${conditions.join(' && ')}; }`,
+        message
+      });
     }
-    
-    return zodArray;
+
+    return node;
   }
 
   private convertObject(
     property: Schema,
     currentPath: string[],
-    schemaName: string,
-    isInline: boolean
-  ): string {
+    schemaName: string
+  ): SchemaNode {
+    const convert = (schema: Schema) => this.convertNode(schema, currentPath, schemaName);
+    const additional = property.additionalProperties;
+    let node: SchemaNode;
+
     if (property.properties) {
-      const props = Object.entries(property.properties)
+      const properties: PropertyNode[] = Object.entries(property.properties)
+        .filter(([, value]) => isVisible(value, this.options.visibility))
         .map(([key, value]) => {
-          const isRequired = property.required && property.required.includes(key);
-          const zodType = this.convertType(value, currentPath, schemaName, isInline);
-          const optionalModifier = isRequired ? '' : '.optional()';
-          return `  ${key}: ${zodType}${optionalModifier}`;
-        })
-        .join(',\n');
-      
-      let zodObject = `z.object({\n${props}\n})`;
-      
-      if (property.additionalProperties === false) {
-        zodObject += '.strict()';
-      } else if (property.additionalProperties === true) {
-        zodObject += '.catchall(z.unknown())';
-      } else if (property.additionalProperties && typeof property.additionalProperties === 'object') {
-        const additionalSchema = this.convertType(property.additionalProperties, currentPath, schemaName, isInline);
-        zodObject += `.catchall(${additionalSchema})`;
+          const isRequired = !!property.required?.includes(key);
+          const optional = this.optional(this.convertNode(value, currentPath, schemaName), value, isRequired);
+          return { key, node: this.applyPropertyHooks(optional, key, property, isRequired, schemaName) };
+        });
+
+      // Refinements below look at undeclared keys, so those are kept instead of stripped;
+      // the patternProperties check also applies additionalProperties itself
+      const refinesKeys = OBJECT_REFINEMENT_KEYWORDS.some(keyword => property[keyword] !== undefined)
+        || (property.required || []).some(key => !property.properties![key]);
+      let unknownKeys: 'strip' | 'strict' | 'passthrough' = 'strip';
+      let catchall: SchemaNode | undefined;
+      if (property.patternProperties || (refinesKeys && additional === undefined)) {
+        unknownKeys = 'passthrough';
+      } else if (additional === false) {
+        unknownKeys = 'strict';
+      } else if (additional === true) {
+        catchall = { kind: 'unknown' };
+      } else if (additional && typeof additional === 'object') {
+        catchall = convert(additional);
       }
-      
-      return zodObject;
+      node = { kind: 'object', properties, unknownKeys, catchall, message: this.getMessage(property) };
+    } else if (additional && typeof additional === 'object' && !property.patternProperties) {
+      node = { kind: 'record', values: convert(additional), message: this.getMessage(property) };
+    } else {
+      node = { kind: 'record', values: { kind: 'unknown' } };
     }
-    return 'z.record(z.unknown())';
+
+    return this.applyObjectKeywords(property, node, convert);
   }
 
-  getDependencies(schemaName: string): Set<string> {
-    return this.dependencies.get(schemaName) || new Set();
+  private applyObjectKeywords(property: Schema, node: SchemaNode, convert: (schema: Schema) => SchemaNode): SchemaNode {
+    let result = node;
+
+    // `required` may name keys that `properties` does not declare, e.g. in if/then/else branches
+    const undeclared = (property.required || []).filter(key => !property.properties?.[key]);
+    if (undeclared.length > 0) {
+      result = withCheck(result, {
+        kind: 'custom',
+        body: helpers => `${JSON.stringify(undeclared)}.forEach((key) => { if (!(key in value)) ${helpers.report('key', "'Required'")}; });`
+      });
+    }
+    if (property.patternProperties) {
+      const patterns = Object.entries(property.patternProperties).map(([pattern, schema]) => ({ pattern, node: convert(schema) }));
+      const additional = property.additionalProperties;
+      const additionalNode = additional && typeof additional === 'object' ? convert(additional) : null;
+      // Declared properties are checked by their own schemas; without any, `[].includes` would not type-check
+      const declared = Object.keys(property.properties || {});
+      const skipDeclared = declared.length > 0 ? `if (${JSON.stringify(declared)}.includes(key)) return; ` : '';
+      result = withCheck(result, {
+        kind: 'custom',
+        body: helpers => {
+          const unmatched = additional === false
+            ? helpers.rejectKey('key')
+            : additionalNode ? helpers.forward(helpers.schema(additionalNode), 'item', 'key') : '';
+          const list = patterns.map(({ pattern, node }) => `[${formatRegex(pattern)}, ${helpers.schema(node)}]`).join(', ');
+          return `const patterns: Array<[RegExp, ${helpers.schemaType}]> = [${list}]; `
+            + `Object.entries(value).forEach(([key, item]) => { ${skipDeclared}`
+            + 'const matching = patterns.filter(([pattern]) => pattern.test(key)); '
+            + `matching.forEach(([, schema]) => ${helpers.forward('schema', 'item', 'key')}); `
+            + `${unmatched ? `if (matching.length === 0) ${unmatched}; ` : ''}});`;
+        }
+      });
+    }
+    if (property.propertyNames) {
+      // Property names are always strings, so the type may be left out
+      const names = property.propertyNames;
+      const nameSchema = convert(names.type || names.$ref ? names : { type: 'string', ...names });
+      result = withCheck(result, {
+        kind: 'custom',
+        body: helpers => `Object.keys(value).forEach((key) => { if (!${helpers.accepts(helpers.schema(nameSchema), 'key')}) `
+          + `${helpers.report('key', '`Invalid property name ${key}`')}; });`
+      });
+    }
+    if (property.dependentRequired) {
+      const dependentRequired = JSON.stringify(property.dependentRequired);
+      result = withCheck(result, {
+        kind: 'custom',
+        body: helpers => `Object.entries<string[]>(${dependentRequired}).forEach(([key, dependents]) => { `
+          + 'const record = value as Record<string, unknown>; '
+          + 'if (record[key] !== undefined) dependents.filter((dependent) => record[dependent] === undefined).forEach((dependent) => '
+          + `${helpers.report('dependent', '`Required when ${key} is present`')}); });`
+      });
+    }
+    if (property.minProperties !== undefined) {
+      const { minProperties } = property;
+      result = withCheck(result, { kind: 'refine', predicate: () => `(value) => Object.keys(value).length >= ${minProperties}`, message: `Expected at least ${minProperties} properties` });
+    }
+    if (property.maxProperties !== undefined) {
+      const { maxProperties } = property;
+      result = withCheck(result, { kind: 'refine', predicate: () => `(value) => Object.keys(value).length <= ${maxProperties}`, message: `Expected at most ${maxProperties} properties` });
+    }
+
+    return result;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,51 @@
+import { Schema } from '../types.js';
+import { getRefName } from './jsonPointer.js';
+
+// Side of the exchange a schema describes: request bodies and parameters are `input`, responses `output`
+export type Visibility = 'input' | 'output';
+
+// `readOnly` properties are only sent by the server, `writeOnly` ones only by the client
+export function isVisible(schema: Schema | undefined, visibility: Visibility | undefined): boolean {
+  if (!schema || !visibility) return true;
+  return visibility === 'input' ? schema.readOnly !== true : schema.writeOnly !== true;
+}
+
+function collectVisibility(schema: Schema | undefined, refs: Set<string>): boolean {
+  if (!schema || typeof schema !== 'object') return false;
+  if (schema.$ref?.startsWith('#/components/schemas/')) {
+    refs.add(getRefName(schema.$ref));
+  }
+
+  const properties = Object.values(schema.properties || {});
+  const additional = typeof schema.additionalProperties === 'object' ? [schema.additionalProperties] : [];
+  const children = [...properties, ...additional, ...(schema.items ? [schema.items] : []),
+    ...(schema.allOf || []), ...(schema.oneOf || []), ...(schema.anyOf || [])];
+
+  // Every child is visited so all references are collected
+  const nested = children.map(child => collectVisibility(child, refs)).some(Boolean);
+  return nested || properties.some(property => property.readOnly === true || property.writeOnly === true);
+}
+
+// Components whose input and output shapes differ, directly or through the components they reference
+export function findVisibilityVariants(schemas: Record<string, Schema>): Set<string> {
+  const variants = new Set<string>();
+  const references = new Map<string, Set<string>>();
+  Object.entries(schemas).forEach(([name, schema]) => {
+    const refs = new Set<string>();
+    if (collectVisibility(schema, refs)) variants.add(name);
+    references.set(name, refs);
+  });
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    references.forEach((refs, name) => {
+      if (!variants.has(name) && Array.from(refs).some(ref => variants.has(ref))) {
+        variants.add(name);
+        changed = true;
+      }
+    });
+  }
+
+  return variants;
+}
@@ -0,0 +1,221 @@
+import { OpenAPIDocument, PathItem, Response, Schema, Diagnostic, DiagnosticSeverity, MediaType } from '../types.js';
+import { formatJsonPointer, resolveJsonPointer } from '../utils/jsonPointer.js';
+import { getPathItemOperations, listOperations } from '../utils/operations.js';
+import { getSchemaTypes } from '../utils/helpers.js';
+import { forEachChild, getReference, NodeKind } from '../utils/traversal.js';
+
+// Keywords the type converter turns into schemas
+const SUPPORTED_KEYWORDS = [
+  'type', 'nullable', 'const', 'properties', 'required', 'items', '$ref', 'allOf', 'oneOf', 'anyOf',
+  'discriminator', 'enum', 'format', 'contentMediaType', 'contentEncoding', 'pattern', 'minLength',
+  'maxLength', 'minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum', 'multipleOf', 'minItems',
+  'maxItems', 'uniqueItems', 'prefixItems', 'contains', 'minContains', 'maxContains', 'additionalProperties',
+  'patternProperties', 'propertyNames', 'minProperties', 'maxProperties', 'dependentRequired', 'not', 'if',
+  'then', 'else', 'default', 'readOnly', 'writeOnly'
+];
+
+// Keywords the converter can only approximate, with what differs from JSON Schema
+const APPROXIMATED_KEYWORDS: Record<string, string> = {
+  prefixItems: 'tuples require every prefix item, while JSON Schema also accepts shorter arrays',
+  uniqueItems: 'items are compared by their JSON serialization, so key order matters',
+  patternProperties: 'matching values are validated but not transformed, and the inferred type does not list them',
+  not: 'checked by a refinement; the inferred type is not narrowed',
+  if: 'then/else are checked by a refinement; the inferred type is not narrowed'
+};
+
+// Annotations carry no validation meaning, so dropping them is expected
+const ANNOTATION_KEYWORDS = [
+  'title', 'description', 'example', 'examples', 'deprecated', 'xml', 'externalDocs', '$comment', '$schema', '$id'
+];
+
+// Whether a literal value is of the given JSON Schema type
+const TYPE_CHECKS: Record<string, (value: unknown) => boolean> = {
+  string: value => typeof value === 'string',
+  number: value => typeof value === 'number',
+  integer: value => Number.isInteger(value),
+  boolean: value => typeof value === 'boolean',
+  null: value => value === null,
+  array: value => Array.isArray(value),
+  object: value => !!value && typeof value === 'object' && !Array.isArray(value)
+};
+
+export class SpecValidator {
+  private document: OpenAPIDocument;
+  private diagnostics: Diagnostic[] = [];
+
+  constructor(document: OpenAPIDocument) {
+    this.document = document;
+  }
+
+  validate(): Diagnostic[] {
+    this.diagnostics = [];
+
+    this.checkRefs(this.document, []);
+    this.checkOperations();
+
+    Object.entries(this.document.components?.schemas || {}).forEach(([name, schema]) => {
+      this.checkSchema(schema, ['components', 'schemas', name]);
+    });
+    Object.entries(this.document.components?.parameters || {}).forEach(([name, parameter]) => {
+      if ('schema' in parameter && parameter.schema) {
+        this.checkSchema(parameter.schema, ['components', 'parameters', name, 'schema']);
+      }
+    });
+    Object.entries(this.document.components?.headers || {}).forEach(([name, header]) => {
+      if ('schema' in header && header.schema) {
+        this.checkSchema(header.schema, ['components', 'headers', name, 'schema']);
+      }
+    });
+    Object.entries(this.document.components?.requestBodies || {}).forEach(([name, requestBody]) => {
+      if (!('$ref' in requestBody)) this.checkContent(requestBody.content, ['components', 'requestBodies', name, 'content']);
+    });
+    Object.entries(this.document.components?.responses || {}).forEach(([name, response]) => {
+      if (!('$ref' in response)) this.checkResponse(response, ['components', 'responses', name]);
+    });
+
+    return this.diagnostics;
+  }
+
+  private report(severity: DiagnosticSeverity, code: string, message: string, segments: string[]): void {
+    this.diagnostics.push({ severity, code, message, pointer: `#${formatJsonPointer(segments)}` });
+  }
+
+  private checkRefs(node: unknown, segments: string[], kind: NodeKind = 'keywords'): void {
+    // External refs were bundled by the loader, so only local ones remain
+    const ref = getReference(node, kind);
+    if (ref?.startsWith('#') && resolveJsonPointer(this.document, ref) === undefined) {
+      this.report('error', 'dangling-ref', `$ref ${ref} does not resolve`, segments);
+    }
+    forEachChild(node, kind, (child, key, childKind) => this.checkRefs(child, [...segments, key], childKind));
+  }
+
+  private checkOperations(): void {
+    const seen = new Map<string, string[]>();
+
+    // Ids the generator falls back to are reported, but do not stop generation
+    listOperations(this.document.paths).forEach(({ path, method, operation, operationId }) => {
+      const segments = ['paths', path, method];
+      if (!operation.operationId) {
+        this.report('warning', 'missing-operation-id', `${method.toUpperCase()} ${path} has no operationId; ${operationId} is used`, segments);
+      } else if (seen.has(operation.operationId)) {
+        const first = `#${formatJsonPointer(seen.get(operation.operationId)!)}`;
+        this.report('warning', 'duplicate-operation-id', `operationId ${operation.operationId} is already used by ${first}; ${operationId} is used`, [...segments, 'operationId']);
+      } else {
+        seen.set(operation.operationId, segments);
+      }
+    });
+
+    Object.entries(this.document.paths || {}).forEach(([pathName, pathItem]) => {
+      this.checkPathItem(pathItem, ['paths', pathName]);
+    });
+
+    // Webhooks are named by their key, so their operationIds are optional
+    Object.entries(this.document.webhooks || {}).forEach(([name, pathItem]) => {
+      if (!('$ref' in pathItem)) this.checkPathItem(pathItem, ['webhooks', name]);
+    });
+  }
+
+  private checkPathItem(pathItem: PathItem, segments: string[]): void {
+    (pathItem.parameters || []).forEach((parameter, index) => {
+      if ('schema' in parameter && parameter.schema) {
+        this.checkSchema(parameter.schema, [...segments, 'parameters', String(index), 'schema']);
+      }
+    });
+
+    getPathItemOperations(pathItem).forEach(([method, operation]) => {
+      const operationSegments = [...segments, method];
+
+      (operation.parameters || []).forEach((parameter, index) => {
+        if ('schema' in parameter && parameter.schema) {
+          this.checkSchema(parameter.schema, [...operationSegments, 'parameters', String(index), 'schema']);
+        }
+      });
+      if (operation.requestBody && !('$ref' in operation.requestBody)) {
+        this.checkContent(operation.requestBody.content, [...operationSegments, 'requestBody', 'content']);
+      }
+      Object.entries(operation.responses || {}).forEach(([statusCode, response]) => {
+        if (response && !('$ref' in response)) {
+          this.checkResponse(response, [...operationSegments, 'responses', statusCode]);
+        }
+      });
+      Object.entries(operation.callbacks || {}).forEach(([name, callback]) => {
+        if (!callback || '$ref' in callback) return;
+        Object.entries(callback).forEach(([expression, callbackItem]) => {
+          this.checkPathItem(callbackItem, [...operationSegments, 'callbacks', name, expression]);
+        });
+      });
+    });
+  }
+
+  private checkResponse(response: Response, segments: string[]): void {
+    Object.entries(response.headers || {}).forEach(([name, header]) => {
+      if ('schema' in header && header.schema) {
+        this.checkSchema(header.schema, [...segments, 'headers', name, 'schema']);
+      }
+    });
+    this.checkContent(response.content, [...segments, 'content']);
+  }
+
+  private checkContent(content: Record<string, MediaType> | undefined, segments: string[]): void {
+    Object.entries(content || {}).forEach(([mediaType, media]) => {
+      if (media?.schema) {
+        this.checkSchema(media.schema, [...segments, mediaType, 'schema']);
+      }
+    });
+  }
+
+  private checkSchema(schema: Schema, segments: string[]): void {
+    if (!schema || typeof schema !== 'object') return;
+
+    Object.keys(schema).forEach(keyword => {
+      if (SUPPORTED_KEYWORDS.includes(keyword) || ANNOTATION_KEYWORDS.includes(keyword) || keyword.startsWith('x-')) return;
+      this.report('warning', 'unsupported-keyword', `Keyword ${keyword} is not supported and is dropped`, [...segments, keyword]);
+    });
+
+    if (schema.pattern !== undefined) {
+      try {
+        new RegExp(schema.pattern);
+      } catch (error) {
+        this.report('error', 'invalid-pattern', `pattern is not a valid regular expression: ${(error as Error).message}`, [...segments, 'pattern']);
+      }
+    }
+
+    // Values outside the declared type can never match, e.g. `enum: [1]` on a string
+    if (Array.isArray(schema.enum) && schema.type !== undefined) {
+      const types = [...getSchemaTypes(schema), ...(schema.nullable ? ['null'] : [])].filter(type => TYPE_CHECKS[type]);
+      schema.enum.forEach((value, index) => {
+        if (types.length === 0 || types.some(type => TYPE_CHECKS[type](value))) return;
+        this.report('warning', 'enum-type-mismatch', `enum value ${JSON.stringify(value)} is not of type ${types.join(' or ')}`, [...segments, 'enum', String(index)]);
+      });
+    }
+
+    Object.entries(APPROXIMATED_KEYWORDS).forEach(([keyword, reason]) => {
+      if (schema[keyword as keyof Schema] === undefined) return;
+      this.report('warning', 'approximated-keyword', `Keyword ${keyword} is approximated: ${reason}`, [...segments, keyword]);
+    });
+
+    // Recurse into subschemas
+    (['properties', 'patternProperties'] as const).forEach(keyword => {
+      Object.entries(schema[keyword] || {}).forEach(([key, value]) => this.checkSchema(value, [...segments, keyword, key]));
+    });
+    if (schema.items) this.checkSchema(schema.items, [...segments, 'items']);
+    (['allOf', 'oneOf', 'anyOf', 'prefixItems'] as const).forEach(keyword => {
+      schema[keyword]?.forEach((value, index) => this.checkSchema(value, [...segments, keyword, String(index)]));
+    });
+    (['not', 'if', 'then', 'else', 'contains', 'propertyNames'] as const).forEach(keyword => {
+      if (schema[keyword]) this.checkSchema(schema[keyword]!, [...segments, keyword]);
+    });
+    if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+      this.checkSchema(schema.additionalProperties, [...segments, 'additionalProperties']);
+    }
+  }
+}
+
+export function hasErrors(diagnostics: Diagnostic[], strict = false): boolean {
+  return diagnostics.some(diagnostic => diagnostic.severity === 'error' || strict);
+}
+
+export function formatDiagnostics(diagnostics: Diagnostic[]): string[] {
+  return diagnostics.map(({ severity, code, message, pointer }) =>
+    `   ${severity === 'error' ? '✖' : '⚠'} ${severity} ${code}: ${message}\n     at ${pointer}`);
+}
@@ -0,0 +1,121 @@
+import fs from 'fs';
+import path from 'path';
+import { GeneratedFile } from './types.js';
+
+// Lists every file written by the generator so stale ones can be removed later
+export const MANIFEST_FILE = '.openapi-zod-manifest.json';
+
+export type FileStatus = 'added' | 'changed' | 'unchanged' | 'removed';
+
+export interface PlannedFile {
+  path: string;
+  status: FileStatus;
+  content?: string;
+  linesAdded: number;
+  linesRemoved: number;
+}
+
+export function getRelativePath(file: GeneratedFile): string {
+  return file.dirName ? path.posix.join(file.dirName, file.fileName) : file.fileName;
+}
+
+function readManifest(outputDir: string): string[] {
+  const manifestPath = path.join(outputDir, MANIFEST_FILE);
+  if (!fs.existsSync(manifestPath)) return [];
+  try {
+    const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+    return Array.isArray(manifest.files) ? manifest.files : [];
+  } catch {
+    return [];
+  }
+}
+
+function countLineChanges(before: string, after: string): { linesAdded: number; linesRemoved: number } {
+  // Multiset comparison of lines: cheap and good enough for a summary
+  const counts = new Map<string, number>();
+  before.split('\n').forEach(line => counts.set(line, (counts.get(line) || 0) + 1));
+
+  let linesAdded = 0;
+  after.split('\n').forEach(line => {
+    const count = counts.get(line) || 0;
+    if (count > 0) counts.set(line, count - 1);
+    else linesAdded++;
+  });
+
+  const linesRemoved = Array.from(counts.values()).reduce((sum, count) => sum + count, 0);
+  return { linesAdded, linesRemoved };
+}
+
+export function planOutput(outputDir: string, files: GeneratedFile[]): PlannedFile[] {
+  const plan: PlannedFile[] = [];
+  const generated = new Set<string>();
+
+  files.forEach(file => {
+    const relativePath = getRelativePath(file);
+    generated.add(relativePath);
+    const filePath = path.join(outputDir, relativePath);
+
+    if (!fs.existsSync(filePath)) {
+      plan.push({ path: relativePath, status: 'added', content: file.content, linesAdded: file.content.split('\n').length, linesRemoved: 0 });
+      return;
+    }
+
+    const existing = fs.readFileSync(filePath, 'utf-8');
+    if (existing === file.content) {
+      plan.push({ path: relativePath, status: 'unchanged', linesAdded: 0, linesRemoved: 0 });
+    } else {
+      plan.push({ path: relativePath, status: 'changed', content: file.content, ...countLineChanges(existing, file.content) });
+    }
+  });
+
+  // Only files recorded in the previous manifest are ever removed
+  readManifest(outputDir).forEach(relativePath => {
+    const filePath = path.join(outputDir, relativePath);
+    if (generated.has(relativePath) || !fs.existsSync(filePath)) return;
+    const existing = fs.readFileSync(filePath, 'utf-8');
+    plan.push({ path: relativePath, status: 'removed', linesAdded: 0, linesRemoved: existing.split('\n').length });
+  });
+
+  return plan;
+}
+
+function removeEmptyDirs(outputDir: string, dirPath: string): void {
+  let current = dirPath;
+  while (current.startsWith(outputDir) && current !== outputDir && fs.existsSync(current) && fs.readdirSync(current).length === 0) {
+    fs.rmdirSync(current);
+    current = path.dirname(current);
+  }
+}
+
+export function applyPlan(outputDir: string, plan: PlannedFile[]): void {
+  fs.mkdirSync(outputDir, { recursive: true });
+
+  plan.forEach(entry => {
+    const filePath = path.join(outputDir, entry.path);
+    if (entry.status === 'added' || entry.status === 'changed') {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, entry.content!);
+    } else if (entry.status === 'removed') {
+      fs.rmSync(filePath, { force: true });
+      removeEmptyDirs(outputDir, path.dirname(filePath));
+    }
+  });
+
+  const files = plan.filter(entry => entry.status !== 'removed').map(entry => entry.path).sort();
+  const manifest = JSON.stringify({ files }, null, 2) + '\n';
+  const manifestPath = path.join(outputDir, MANIFEST_FILE);
+  if (!fs.existsSync(manifestPath) || fs.readFileSync(manifestPath, 'utf-8') !== manifest) {
+    fs.writeFileSync(manifestPath, manifest);
+  }
+}
+
+export function isOutdated(plan: PlannedFile[]): boolean {
+  return plan.some(entry => entry.status !== 'unchanged');
+}
+
+export function formatPlan(plan: PlannedFile[]): string[] {
+  const symbols: Record<FileStatus, string> = { added: '+', changed: '~', removed: '-', unchanged: ' ' };
+  return plan
+    .filter(entry => entry.status !== 'unchanged')
+    .map(entry => `   ${symbols[entry.status]} ${entry.path} (${entry.status}, +${entry.linesAdded} -${entry.linesRemoved})`);
+}
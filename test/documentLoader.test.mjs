@@ -0,0 +1,58 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { DocumentLoader } from '../dist/api.js';
+
+const writeSpec = files => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'loader-'));
+  Object.entries(files).forEach(([name, content]) => fs.writeFileSync(path.join(dir, name), JSON.stringify(content)));
+  return dir;
+};
+
+test('properties named like literal keywords are bundled', () => {
+  const dir = writeSpec({
+    'root.json': {
+      openapi: '3.1.0',
+      info: { title: 'Test', version: '1.0.0' },
+      paths: {},
+      components: {
+        schemas: {
+          Settings: {
+            type: 'object',
+            properties: {
+              default: { $ref: 'other.json#/components/schemas/Theme' },
+              enum: { type: 'string', example: { $ref: 'missing.json' } }
+            }
+          }
+        }
+      }
+    },
+    'other.json': { components: { schemas: { Theme: { type: 'string', enum: ['light', 'dark'] } } } }
+  });
+
+  const { document, files } = new DocumentLoader().load(path.join(dir, 'root.json'));
+
+  assert.equal(files.length, 2);
+  assert.deepEqual(document.components.schemas.Settings.properties.default, { $ref: '#/components/schemas/Theme' });
+  assert.deepEqual(document.components.schemas.Theme, { type: 'string', enum: ['light', 'dark'] });
+  // Literal values are kept as they are
+  assert.deepEqual(document.components.schemas.Settings.properties.enum.example, { $ref: 'missing.json' });
+});
+
+test('a missing referenced file is located at its $ref', () => {
+  const dir = writeSpec({
+    'root.json': {
+      openapi: '3.1.0',
+      info: { title: 'Test', version: '1.0.0' },
+      paths: {},
+      components: { schemas: { Settings: { type: 'object', properties: { theme: { $ref: 'gone.json#/Theme' } } } } }
+    }
+  });
+
+  assert.throws(() => new DocumentLoader().load(path.join(dir, 'root.json')), {
+    name: 'LoadError',
+    pointer: '#/components/schemas/Settings/properties/theme'
+  });
+});
@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ZodSchemaGenerator } from '../dist/api.js';
+
+const document = {
+  openapi: '3.1.0',
+  info: { title: 'Test', version: '1.0.0' },
+  paths: {
+    '/s': {
+      get: {
+        operationId: 'getS',
+        responses: {
+          200: { description: 'OK', content: { 'application/json': { schema: { $ref: '#/components/schemas/Settings' } } } },
+          default: { description: 'Error', content: { 'application/json': { schema: { $ref: '#/components/schemas/Failure' } } } }
+        }
+      }
+    },
+    '/other': {
+      get: {
+        operationId: 'getOther',
+        responses: { 200: { description: 'OK', content: { 'application/json': { schema: { $ref: '#/components/schemas/Unused' } } } } }
+      }
+    }
+  },
+  components: {
+    schemas: {
+      Settings: { type: 'object', properties: { default: { $ref: '#/components/schemas/Theme' } } },
+      Theme: { type: 'string', enum: ['light', 'dark'] },
+      Failure: { type: 'object', properties: { message: { type: 'string' } } },
+      Unused: { type: 'string' }
+    }
+  }
+};
+
+test('components reached through names that look like literal keywords are kept', () => {
+  const files = new ZodSchemaGenerator(document, { include: ['path:/s'] }).generate();
+  const components = files.filter(file => file.dirName === '_components').map(file => file.fileName).sort();
+
+  assert.deepEqual(components, ['Failure.ts', 'Settings.ts', 'Theme.ts']);
+});
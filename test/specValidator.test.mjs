@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SpecValidator } from '../dist/api.js';
+
+const validate = schemas => new SpecValidator({
+  openapi: '3.1.0',
+  info: { title: 'Test', version: '1.0.0' },
+  paths: {},
+  components: { schemas }
+}).validate();
+
+test('dangling refs under properties named like literal keywords are reported', () => {
+  const diagnostics = validate({
+    Settings: {
+      type: 'object',
+      properties: {
+        enum: { $ref: '#/components/schemas/Missing' },
+        example: { type: 'string', example: { $ref: '#/not/a/ref' } }
+      }
+    }
+  });
+
+  assert.deepEqual(diagnostics.map(({ code, pointer }) => ({ code, pointer })), [
+    { code: 'dangling-ref', pointer: '#/components/schemas/Settings/properties/enum' }
+  ]);
+});
+
+test('enum values outside the declared type are reported', () => {
+  const diagnostics = validate({
+    Code: { type: 'string', enum: [1, 'a'] },
+    Untyped: { enum: [1, 'a'] }
+  });
+
+  assert.deepEqual(diagnostics.map(({ code, pointer }) => ({ code, pointer })), [
+    { code: 'enum-type-mismatch', pointer: '#/components/schemas/Code/enum/0' }
+  ]);
+});
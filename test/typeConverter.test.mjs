@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ZodSchemaGenerator } from '../dist/api.js';
+
+const componentFile = (schemas, name) => new ZodSchemaGenerator({
+  openapi: '3.1.0',
+  info: { title: 'Test', version: '1.0.0' },
+  paths: {},
+  components: { schemas }
+}).generate().find(file => file.fileName === `${name}.ts`);
+
+test('patternProperties without properties skips the declared-key check', () => {
+  const file = componentFile({
+    Tags: { type: 'object', patternProperties: { '^x-': { type: 'string' } }, additionalProperties: false }
+  }, 'Tags');
+
+  assert.ok(file);
+  assert.match(file.content, /const patterns: Array<\[RegExp, /);
+  assert.doesNotMatch(file.content, /\[\]\.includes\(key\)/);
+});
+
+test('patternProperties next to properties leave the declared keys to their own schemas', () => {
+  const file = componentFile({
+    Mixed: { type: 'object', properties: { a: { type: 'integer' } }, patternProperties: { '^n': { type: 'number' } } }
+  }, 'Mixed');
+
+  assert.ok(file);
+  assert.match(file.content, /if \(\["a"\]\.includes\(key\)\) return;/);
+});